@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   Briefcase,
   Sparkles,
@@ -6,7 +6,6 @@ import {
   Check,
   Linkedin,
   Settings2,
-  ExternalLink,
   AlertCircle,
   RefreshCw,
   Zap,
@@ -19,20 +18,48 @@ import {
   Server,
   Eye,
   EyeOff,
-  ShieldCheck
+  ShieldCheck,
+  Square,
+  Wallet,
+  Columns3
 } from 'lucide-react';
 import { TextArea } from './components/TextArea';
 import { Button } from './components/Button';
 import { DocumentManager } from './components/DocumentManager';
-import { UploadedDocument, PostType, GenerationConfig, Vendor, ModelInfo, KnowledgeMode } from './types';
-import { getProvider, getAvailableVendors } from './services/llmFactory';
+import { AdvancedSettings } from './components/AdvancedSettings';
+import { SmartSearchSettings } from './components/SmartSearchSettings';
+import { RetrievalInspector } from './components/RetrievalInspector';
+import { TokenBudgetMeter } from './components/TokenBudgetMeter';
+import { ErrorBanner } from './components/ErrorBanner';
+import { VariantCompare } from './components/VariantCompare';
+import { StructuredDraftEditor } from './components/StructuredDraftEditor';
+import { UsageDashboard } from './components/UsageDashboard';
+import { SourcesPanel } from './components/SourcesPanel';
+import { UploadedDocument, PostType, GenerationConfig, Vendor, ModelInfo, KnowledgeMode, CustomEndpointConfig, GenerationParams, DraftVariant, TokenUsage, RetrievalSettings, KnowledgeCitation, ChunkOverrides, QueryExpansion, RetrievedKnowledge } from './types';
+import { getProvider, getAvailableVendors, configureCustomEndpoint, isMockMode } from './services/llmFactory';
+import { DEFAULT_CUSTOM_ENDPOINT } from './services/customEndpointProvider';
+import { DEFAULT_RETRIEVAL, ragService } from './services/ragService';
+import { documentStore, splitDocument } from './services/documentStore';
+import { loadStyleExamples } from './services/linkedinArchive';
+import { getSystemInstruction } from './services/promptUtils';
+import { BudgetReport, fitToBudget } from './services/tokenBudget';
+import { usageService, PriceRow, DEFAULT_PRICES, UsageEntry } from './services/usageService';
+import { ProviderError, ProviderErrorKind, classifyError, withRetry, getErrorHelp } from './services/providerErrors';
+import { StructuredDraft, assemblePost, getDefaultSelection } from './services/structuredOutput';
+import { stripCitationMarkers } from './services/citations';
+import { retrieveKnowledge } from './services/knowledge';
 
 const DEFAULT_PERSONALITY = 'Professional, empathetic, yet authoritative. Insightful and bold.';
 const DEFAULT_VENDOR = Vendor.GEMINI;
 const DEFAULT_MODELS: Record<Vendor, string> = {
   [Vendor.GEMINI]: 'gemini-2.0-flash',
-  [Vendor.OPENAI]: 'gpt-4o'
+  [Vendor.OPENAI]: 'gpt-4o',
+  [Vendor.ANTHROPIC]: 'claude-sonnet-4-5',
+  [Vendor.CUSTOM]: 'llama3.1'
 };
+const DEFAULT_EMBEDDING_VENDOR = Vendor.GEMINI;
+// Keys and endpoint URLs are typed or pasted; models are listed once the input settles
+const MODEL_LOAD_DELAY_MS = 600;
 
 const STORAGE_KEYS = {
   CONTEXT: 'li_arch_context',
@@ -43,8 +70,25 @@ const STORAGE_KEYS = {
   SELECTED_VENDOR: 'li_arch_selected_vendor',
   SELECTED_MODEL: 'li_arch_selected_model_v2', // Changed key to reset if needed
   GENERATED_CONTENT: 'li_arch_generated_content',
-  API_KEYS: 'li_arch_api_keys_v2' // Map of vendor -> key
+  API_KEYS: 'li_arch_api_keys_v2', // Map of vendor -> key
+  EMBEDDING_VENDOR: 'li_arch_embedding_vendor', // Smart Search vendor when the generator has no embeddings
+  CUSTOM_ENDPOINT: 'li_arch_custom_endpoint', // Base URL and embedding model of the OpenAI-compatible server
+  GENERATION_PARAMS: 'li_arch_generation_params', // Map of `${vendor}:${model}` -> sampling options
+  PRICE_TABLE: 'li_arch_price_table',
+  VARIANT_COUNT: 'li_arch_variant_count',
+  STRUCTURED_MODE: 'li_arch_structured_mode',
+  STRUCTURED_DRAFT: 'li_arch_structured_draft', // Sections and picks behind the current draft, in structured mode
+  RETRIEVAL_SETTINGS: 'li_arch_retrieval_settings',
+  STRIP_CITATIONS: 'li_arch_strip_citations', // Only stored when turned off
+  QUERY_EXPANSION: 'li_arch_query_expansion'
 };
+const MAX_VARIANTS = 4;
+const QUERY_EXPANSION_OPTIONS: { id: QueryExpansion; name: string }[] = [
+  { id: QueryExpansion.OFF, name: 'Direct Search' },
+  { id: QueryExpansion.MULTI_QUERY, name: 'Multi-Query' },
+  { id: QueryExpansion.HYDE, name: 'HyDE' }
+];
+const NO_CHUNK_OVERRIDES: ChunkOverrides = { pinned: [], excluded: [] };
 
 const App: React.FC = () => {
   // Persistence Initialization
@@ -96,18 +140,97 @@ const App: React.FC = () => {
     }
   });
 
+  const [embeddingVendor, setEmbeddingVendor] = useState<Vendor>(() =>
+    (localStorage.getItem(STORAGE_KEYS.EMBEDDING_VENDOR) as Vendor) || DEFAULT_EMBEDDING_VENDOR
+  );
+
+  const [customEndpoint, setCustomEndpoint] = useState<CustomEndpointConfig>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEYS.CUSTOM_ENDPOINT);
+      const endpoint = saved ? { ...DEFAULT_CUSTOM_ENDPOINT, ...JSON.parse(saved) } : DEFAULT_CUSTOM_ENDPOINT;
+      configureCustomEndpoint(endpoint);
+      return endpoint;
+    } catch {
+      return DEFAULT_CUSTOM_ENDPOINT;
+    }
+  });
+
   const [selectedModel, setSelectedModel] = useState<string>(() =>
     localStorage.getItem(`${STORAGE_KEYS.SELECTED_MODEL}_${selectedVendor}`) || DEFAULT_MODELS[selectedVendor]
   );
 
+  const [retrievalSettings, setRetrievalSettings] = useState<RetrievalSettings>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEYS.RETRIEVAL_SETTINGS);
+      return saved ? { ...DEFAULT_RETRIEVAL, ...JSON.parse(saved) } : DEFAULT_RETRIEVAL;
+    } catch {
+      return DEFAULT_RETRIEVAL;
+    }
+  });
+  const [queryExpansion, setQueryExpansion] = useState<QueryExpansion>(() =>
+    (localStorage.getItem(STORAGE_KEYS.QUERY_EXPANSION) as QueryExpansion) || QueryExpansion.OFF
+  );
+  // Pins and exclusions from the retrieval inspector; a re-index reuses chunk ids for new text, so not persisted
+  const [chunkOverrides, setChunkOverrides] = useState<ChunkOverrides>(NO_CHUNK_OVERRIDES);
+  const [generationParams, setGenerationParams] = useState<Record<string, GenerationParams>>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEYS.GENERATION_PARAMS);
+      return saved ? JSON.parse(saved) : {};
+    } catch {
+      return {};
+    }
+  });
+  const paramsKey = `${selectedVendor}:${selectedModel}`;
+  const currentParams = generationParams[paramsKey] || {};
+
+  const [prices, setPrices] = useState<PriceRow[]>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEYS.PRICE_TABLE);
+      return saved ? JSON.parse(saved) : DEFAULT_PRICES;
+    } catch {
+      return DEFAULT_PRICES;
+    }
+  });
+  const [showUsage, setShowUsage] = useState<boolean>(false);
+  const [variantCount, setVariantCount] = useState<number>(() =>
+    Number(localStorage.getItem(STORAGE_KEYS.VARIANT_COUNT)) || 1
+  );
+  const [variants, setVariants] = useState<DraftVariant[]>([]);
+  const [showVariants, setShowVariants] = useState<boolean>(false);
+  const [structuredMode, setStructuredMode] = useState<boolean>(() =>
+    localStorage.getItem(STORAGE_KEYS.STRUCTURED_MODE) === 'true'
+  );
+  const [stripCitations, setStripCitations] = useState<boolean>(() =>
+    localStorage.getItem(STORAGE_KEYS.STRIP_CITATIONS) !== 'false'
+  );
+  const [structuredDraft, setStructuredDraft] = useState<StructuredDraft | null>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEYS.STRUCTURED_DRAFT);
+      return saved ? JSON.parse(saved) : null;
+    } catch {
+      return null;
+    }
+  });
+
   const [generatedContent, setGeneratedContent] = useState<string>(() =>
     localStorage.getItem(STORAGE_KEYS.GENERATED_CONTENT) || ''
   );
 
   const draftAreaRef = useRef<HTMLTextAreaElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Bumped by every model list request, so an answer for an older key or URL is dropped
+  const modelRequestRef = useRef(0);
 
   // Current API Key for the active vendor
   const currentApiKey = apiKeys[selectedVendor] || '';
+  // Smart Search uses the active vendor unless it cannot embed (e.g. Anthropic)
+  const ragVendor = getProvider(selectedVendor).supportsEmbeddings ? selectedVendor : embeddingVendor;
+  const ragApiKey = apiKeys[ragVendor] || '';
+  const [ragEmbeddingModel, setRagEmbeddingModel] = useState(() => getProvider(ragVendor).getEmbeddingModel());
+  const hasSmartSearchDocs = documents.some(doc => doc.isActive && doc.knowledgeMode === KnowledgeMode.RAG);
+  const isRagVendorReady = isMockMode() || (ragVendor === Vendor.CUSTOM ? !!customEndpoint.baseUrl : !!ragApiKey);
+  // The custom endpoint only needs a base URL; its key is optional. Mock mode needs neither.
+  const isVendorReady = isMockMode() || (selectedVendor === Vendor.CUSTOM ? !!customEndpoint.baseUrl : !!currentApiKey);
   const [showApiKey, setShowApiKey] = useState<boolean>(false);
 
   // Resizable Panels State
@@ -188,9 +311,15 @@ const App: React.FC = () => {
 
   // Other State
   const [sources, setSources] = useState<{ title: string; uri: string }[]>([]);
+  const [citations, setCitations] = useState<KnowledgeCitation[]>([]);
+  const [retrievalQueries, setRetrievalQueries] = useState<string[]>([]);
+  const [vectorSearchSkipped, setVectorSearchSkipped] = useState<string | undefined>();
+  const [lastBudget, setLastBudget] = useState<BudgetReport | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isStreaming, setIsStreaming] = useState<boolean>(false);
   const [isModelLoading, setIsModelLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ProviderError | null>(null);
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
   const [copied, setCopied] = useState<boolean>(false);
   const [availableModels, setAvailableModels] = useState<ModelInfo[]>([]);
 
@@ -214,6 +343,26 @@ const App: React.FC = () => {
     localStorage.setItem(STORAGE_KEYS.POST_TYPE, postType);
   }, [postType]);
 
+  // Documents saved before their contents moved to IndexedDB still carry them inline: move them
+  // once, and only drop them from the list when they are safely stored
+  useEffect(() => {
+    const legacy = documents.filter(doc => doc.data !== undefined || doc.parsedText !== undefined);
+    if (legacy.length === 0) return;
+    const split = legacy.map(splitDocument);
+    documentStore.saveContents(split.map(s => s.content))
+      .then(() => setDocuments(prev => prev.map(doc => split.find(s => s.meta.id === doc.id)?.meta || doc)))
+      .catch(err => console.warn("Failed to move documents to IndexedDB:", err));
+  }, []);
+
+  // Documents analyzed before indexes were tracked per vendor and model: read theirs from the database
+  useEffect(() => {
+    const untracked = documents.filter(doc => doc.isIndexed && !doc.embeddingIndexes);
+    if (untracked.length === 0) return;
+    ragService.getEmbeddingIndexes(untracked.map(doc => doc.id))
+      .then(indexes => setDocuments(prev => prev.map(doc => indexes.has(doc.id) ? { ...doc, embeddingIndexes: indexes.get(doc.id) } : doc)))
+      .catch(err => console.warn("Failed to read Smart Search indexes:", err));
+  }, []);
+
   useEffect(() => {
     try {
       if (documents.length > 0) {
@@ -247,22 +396,84 @@ const App: React.FC = () => {
   }, [apiKeys]);
 
   useEffect(() => {
-    if (currentApiKey) {
-      setAvailableModels([]); // Clear immediate stale models
-      loadModels();
-    } else {
-      setAvailableModels([]);
-    }
-  }, [selectedVendor, currentApiKey]);
+    localStorage.setItem(STORAGE_KEYS.EMBEDDING_VENDOR, embeddingVendor);
+  }, [embeddingVendor]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.GENERATION_PARAMS, JSON.stringify(generationParams));
+  }, [generationParams]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.RETRIEVAL_SETTINGS, JSON.stringify(retrievalSettings));
+  }, [retrievalSettings]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.PRICE_TABLE, JSON.stringify(prices));
+  }, [prices]);
+
+  useEffect(() => {
+    if (structuredMode) localStorage.setItem(STORAGE_KEYS.STRUCTURED_MODE, 'true');
+    else localStorage.removeItem(STORAGE_KEYS.STRUCTURED_MODE);
+  }, [structuredMode]);
+
+  useEffect(() => {
+    if (queryExpansion !== QueryExpansion.OFF) localStorage.setItem(STORAGE_KEYS.QUERY_EXPANSION, queryExpansion);
+    else localStorage.removeItem(STORAGE_KEYS.QUERY_EXPANSION);
+  }, [queryExpansion]);
+
+  useEffect(() => {
+    if (stripCitations) localStorage.removeItem(STORAGE_KEYS.STRIP_CITATIONS);
+    else localStorage.setItem(STORAGE_KEYS.STRIP_CITATIONS, 'false');
+  }, [stripCitations]);
+
+  useEffect(() => {
+    if (structuredDraft) localStorage.setItem(STORAGE_KEYS.STRUCTURED_DRAFT, JSON.stringify(structuredDraft));
+    else localStorage.removeItem(STORAGE_KEYS.STRUCTURED_DRAFT);
+  }, [structuredDraft]);
+
+  useEffect(() => {
+    if (variantCount > 1) localStorage.setItem(STORAGE_KEYS.VARIANT_COUNT, String(variantCount));
+    else localStorage.removeItem(STORAGE_KEYS.VARIANT_COUNT);
+  }, [variantCount]);
+
+  useEffect(() => {
+    configureCustomEndpoint(customEndpoint);
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_ENDPOINT, JSON.stringify(customEndpoint));
+  }, [customEndpoint]);
+
+  // Read after the endpoint is configured, since a custom server names its own embedding model
+  useEffect(() => {
+    setRagEmbeddingModel(getProvider(ragVendor).getEmbeddingModel());
+  }, [ragVendor, customEndpoint]);
+
+  useEffect(() => {
+    setAvailableModels([]); // Clear immediate stale models
+    modelRequestRef.current++;
+    setIsModelLoading(false);
+    if (!isVendorReady) return;
+    const timer = setTimeout(loadModels, MODEL_LOAD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [selectedVendor, currentApiKey, customEndpoint.baseUrl]);
+
+  // Pre-flight estimate; Smart Search chunks and voice examples are only known once generation starts
+  const budgetEstimate = useMemo(() => fitToBudget({
+    systemInstruction: getSystemInstruction(personality),
+    config: { context, personality, braindump, postType, model: selectedModel, currentDraft: generatedContent || undefined, ...currentParams },
+    contextDocs: documents.filter(doc => doc.isActive && doc.knowledgeMode === KnowledgeMode.CONTEXT),
+    chunks: [],
+    contextWindow: getProvider(selectedVendor).getContextWindow(selectedModel)
+  }).report, [context, personality, braindump, postType, selectedModel, selectedVendor, generatedContent, generationParams, paramsKey, documents, customEndpoint]);
 
   const loadModels = async () => {
-    if (!currentApiKey) return;
+    if (!isVendorReady) return;
 
+    const request = ++modelRequestRef.current;
     setIsModelLoading(true);
     setError(null);
     try {
       const provider = getProvider(selectedVendor);
-      const models = await provider.fetchModels(currentApiKey);
+      const models = await withRetry(() => provider.fetchModels(currentApiKey), selectedVendor);
+      if (request !== modelRequestRef.current) return;
       setAvailableModels(models);
 
       // Get the MOST CURRENT selected model for this vendor from state or localStorage
@@ -281,10 +492,11 @@ const App: React.FC = () => {
         setSelectedModel(modelToVerify);
       }
     } catch (err: any) {
+      if (request !== modelRequestRef.current) return;
       console.error("Failed to load models:", err);
-      setError(`Failed to load ${selectedVendor} models. Check your API key.`);
+      setError(classifyError(err, selectedVendor));
     } finally {
-      setIsModelLoading(false);
+      if (request === modelRequestRef.current) setIsModelLoading(false);
     }
   };
 
@@ -296,12 +508,19 @@ const App: React.FC = () => {
   };
 
   const handleGenerate = async () => {
-    if (!currentApiKey) {
-      setError(`Please provide an API Key for ${selectedVendor.toUpperCase()} in the top right settings.`);
+    if (!isVendorReady) {
+      setError(new ProviderError(
+        ProviderErrorKind.AUTH,
+        selectedVendor === Vendor.CUSTOM
+          ? 'Please provide the base URL of your OpenAI-compatible endpoint in the top right settings.'
+          : `Please provide an API Key for ${selectedVendor.toUpperCase()} in the top right settings.`,
+        selectedVendor
+      ));
       return;
     }
     setIsLoading(true);
     setError(null);
+    setLastBudget(null);
 
     const config: GenerationConfig = {
       context,
@@ -309,25 +528,212 @@ const App: React.FC = () => {
       braindump,
       postType,
       model: selectedModel,
-      currentDraft: generatedContent || undefined
+      currentDraft: generatedContent || undefined,
+      embeddingVendor: ragVendor,
+      embeddingApiKey: ragApiKey,
+      structured: structuredMode || undefined,
+      retrieval: retrievalSettings,
+      chunkOverrides,
+      queryExpansion,
+      ...currentParams
     };
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    let generationDocs: UploadedDocument[];
+    try {
+      // Full Reference documents are sent whole, so their contents are loaded for this run
+      generationDocs = await documentStore.withContents(documents);
+      config.styleExamples = await loadStyleExamples(documents);
+    } catch (err) {
+      console.error("Failed to load documents:", err);
+      setError(classifyError(err, selectedVendor));
+      abortControllerRef.current = null;
+      setIsLoading(false);
+      return;
+    }
+    if (abortController.signal.aborted) {
+      // Stopped while the documents were loading
+      abortControllerRef.current = null;
+      setIsLoading(false);
+      return;
+    }
+
+    if (variantCount > 1) {
+      await generateVariants(config, generationDocs, abortController);
+      return;
+    }
+
+    let streamedText = '';
+
     try {
       const provider = getProvider(selectedVendor);
-      const result = await provider.generateContent(currentApiKey, config, documents);
+      // Structured replies are JSON until parsed, so they are not streamed into the draft
+      const result = await withRetry(() => structuredMode ? provider.generateContent(currentApiKey, config, generationDocs, abortController.signal) : provider.generateContentStream(
+        currentApiKey,
+        config,
+        generationDocs,
+        (delta) => {
+          // First token replaces the previous draft, then the draft fills in live
+          if (!streamedText) {
+            setIsStreaming(true);
+            setRetryStatus(null);
+            setSources([]);
+            setCitations([]);
+            setRetrievalQueries([]);
+            setVectorSearchSkipped(undefined);
+          }
+          streamedText += delta;
+          setGeneratedContent(streamedText);
+        },
+        abortController.signal
+      ), selectedVendor, {
+        signal: abortController.signal,
+        // Once text has streamed, a retry would silently replace it
+        canRetry: () => !streamedText,
+        onRetry: (err, attempt, delayMs) => setRetryStatus(
+          `${getErrorHelp(err).title}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})`
+        )
+      });
+      // A reply that lands as the user stops is billed all the same, but left out of the draft
+      recordUsage(result.usage);
+      if (abortController.signal.aborted) return;
       setGeneratedContent(result.text);
+      setStructuredDraft(result.structured ? { post: result.structured, selection: getDefaultSelection(result.structured) } : null);
       setSources(result.sources);
+      setCitations(result.citations || []);
+      setRetrievalQueries(result.retrievalQueries || []);
+      setVectorSearchSkipped(result.vectorSearchSkipped);
+      setLastBudget(result.budget || null);
     } catch (err: any) {
-      console.error("App Error:", err);
-      setError(err.message || "An unexpected error occurred during generation.");
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep whatever was streamed so far
+        console.info("Generation stopped by user.");
+      } else {
+        console.error("App Error:", err);
+        setError(classifyError(err, selectedVendor));
+      }
     } finally {
+      abortControllerRef.current = null;
+      setRetryStatus(null);
+      setIsStreaming(false);
       setIsLoading(false);
     }
   };
 
+  const recordUsage = (usage?: TokenUsage, kind: UsageEntry['kind'] = 'generation') => {
+    if (!usage) return;
+    usageService.record({
+      vendor: selectedVendor,
+      model: selectedModel,
+      embeddingModel: getProvider(ragVendor).getEmbeddingModel(),
+      kind,
+      ...usage
+    }).catch(err => console.warn("Failed to record usage:", err));
+  };
+
+  // Candidates are generated in parallel without streaming, then picked in the compare view
+  const generateVariants = async (config: GenerationConfig, generationDocs: UploadedDocument[], abortController: AbortController) => {
+    const provider = getProvider(selectedVendor);
+
+    // Searched once for all of them, so a marker like [2] names the same chunk in every variant
+    let retrieved: RetrievedKnowledge;
+    try {
+      retrieved = await withRetry(
+        () => retrieveKnowledge({ provider, apiKey: currentApiKey, config, documents: generationDocs, signal: abortController.signal }),
+        selectedVendor,
+        { signal: abortController.signal }
+      );
+    } catch (err) {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+      if (abortController.signal.aborted) {
+        console.info("Variant generation stopped by user.");
+      } else {
+        console.error("App Error:", err);
+        setError(classifyError(err, selectedVendor));
+      }
+      return;
+    }
+    if (retrieved.queries.length > 0) recordUsage(retrieved.usage, 'search');
+
+    // Stop cancels every variant still in flight
+    const results = await Promise.allSettled(Array.from({ length: variantCount }, (_, i) =>
+      withRetry(
+        () => provider.generateContent(
+          currentApiKey,
+          { ...config, retrieved, variant: { index: i + 1, total: variantCount } },
+          generationDocs,
+          abortController.signal
+        ),
+        selectedVendor,
+        { signal: abortController.signal }
+      )
+    ));
+
+    abortControllerRef.current = null;
+    setIsLoading(false);
+    // Variants that finished before a stop were paid for, so they are recorded either way
+    results.forEach(result => {
+      if (result.status === 'fulfilled') recordUsage(result.value.usage);
+    });
+    if (abortController.signal.aborted) {
+      console.info("Variant generation stopped by user.");
+      return;
+    }
+
+    const generated: DraftVariant[] = [];
+    results.forEach(result => {
+      if (result.status !== 'fulfilled') return;
+      setLastBudget(result.value.budget || null);
+      generated.push({
+        id: crypto.randomUUID(),
+        text: result.value.text,
+        sources: result.value.sources,
+        citations: result.value.citations,
+        retrievalQueries: result.value.retrievalQueries,
+        vectorSearchSkipped: result.value.vectorSearchSkipped,
+        structured: result.value.structured
+      });
+    });
+
+    const failure = results.find(result => result.status === 'rejected');
+    if (generated.length === 0 && failure?.status === 'rejected') {
+      console.error("App Error:", failure.reason);
+      setError(classifyError(failure.reason, selectedVendor));
+      return;
+    }
+    if (failure?.status === 'rejected') {
+      console.warn(`${results.length - generated.length} of ${results.length} variants failed:`, failure.reason);
+    }
+
+    setVariants(generated);
+    setShowVariants(true);
+  };
+
+  const handlePromoteVariant = (variant: DraftVariant) => {
+    setGeneratedContent(variant.text);
+    setStructuredDraft(variant.structured ? { post: variant.structured, selection: getDefaultSelection(variant.structured) } : null);
+    setSources(variant.sources);
+    setCitations(variant.citations || []);
+    setRetrievalQueries(variant.retrievalQueries || []);
+    setVectorSearchSkipped(variant.vectorSearchSkipped);
+    setShowVariants(false);
+  };
+
+  const handleStructuredChange = (draft: StructuredDraft) => {
+    setStructuredDraft(draft);
+    setGeneratedContent(assemblePost(draft.post, draft.selection));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleCopy = () => {
     if (generatedContent) {
-      navigator.clipboard.writeText(generatedContent);
+      navigator.clipboard.writeText(stripCitations ? stripCitationMarkers(generatedContent) : generatedContent);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
@@ -342,20 +748,45 @@ const App: React.FC = () => {
       localStorage.removeItem(`${STORAGE_KEYS.SELECTED_MODEL}_${v.id}`);
     });
 
+    documentStore.clear().catch(err => console.warn("Failed to clear documents:", err));
+    ragService.clear().catch(err => console.warn("Failed to clear the Smart Search index:", err));
+
     setContext('');
     setBraindump('');
     setDocuments([]);
     setGeneratedContent('');
     setSources([]);
+    setCitations([]);
+    setRetrievalQueries([]);
+    setVectorSearchSkipped(undefined);
+    setLastBudget(null);
     setPersonality(DEFAULT_PERSONALITY);
     setSelectedVendor(DEFAULT_VENDOR);
     setApiKeys({} as Record<Vendor, string>);
+    setEmbeddingVendor(DEFAULT_EMBEDDING_VENDOR);
+    setCustomEndpoint(DEFAULT_CUSTOM_ENDPOINT);
+    setGenerationParams({});
+    setPrices(DEFAULT_PRICES);
+    setVariantCount(1);
+    setVariants([]);
+    setStructuredMode(false);
+    setStructuredDraft(null);
+    setStripCitations(true);
+    setRetrievalSettings(DEFAULT_RETRIEVAL);
+    setChunkOverrides(NO_CHUNK_OVERRIDES);
+    setQueryExpansion(QueryExpansion.OFF);
     setSelectedModel(DEFAULT_MODELS[DEFAULT_VENDOR]);
   };
 
   const handleNewDraft = () => {
     setGeneratedContent('');
     setSources([]);
+    setCitations([]);
+    setRetrievalQueries([]);
+    setVectorSearchSkipped(undefined);
+    setVariants([]);
+    setStructuredDraft(null);
+    setLastBudget(null);
     localStorage.removeItem(STORAGE_KEYS.GENERATED_CONTENT);
   };
 
@@ -370,9 +801,25 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold text-gray-900 tracking-tight">
               LinkedIn<span className="text-[#0077B5]">Architect</span>
             </h1>
+            {isMockMode() && (
+              <span
+                id="mock-mode-badge"
+                className="text-[9px] font-black px-1.5 py-0.5 rounded uppercase tracking-tighter bg-purple-100 text-purple-700"
+                title="All vendors are served by an offline mock provider"
+              >
+                Mock Mode
+              </span>
+            )}
           </div>
 
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowUsage(true)}
+              className="flex items-center gap-1.5 text-xs font-bold text-gray-400 hover:text-[#0077B5] transition-colors uppercase tracking-wider px-3 py-2 rounded-lg hover:bg-blue-50"
+            >
+              <Wallet className="w-3.5 h-3.5" /> Usage
+            </button>
+
             <button
               onClick={handleClearAll}
               className="flex items-center gap-1.5 text-xs font-bold text-gray-400 hover:text-red-500 transition-colors uppercase tracking-wider px-3 py-2 rounded-lg hover:bg-red-50"
@@ -394,13 +841,47 @@ const App: React.FC = () => {
               </select>
             </div>
 
-            <div className={`flex items-center gap-2 text-xs font-semibold px-2 py-1.5 rounded-lg border transition-all ${!currentApiKey ? 'bg-amber-50 border-amber-200 ring-2 ring-amber-500 animate-pulse' : 'bg-gray-50 border-gray-200 text-gray-500 hover:border-[#0077B5]/30'}`}>
+            {selectedVendor === Vendor.CUSTOM && (
+              <div className="flex items-center gap-2 text-xs font-semibold text-gray-500 bg-gray-50 px-2 py-1.5 rounded-lg border border-gray-200">
+                <input
+                  id="endpoint-url-input"
+                  type="text"
+                  value={customEndpoint.baseUrl}
+                  onChange={(e) => setCustomEndpoint(prev => ({ ...prev, baseUrl: e.target.value.trim() }))}
+                  placeholder={DEFAULT_CUSTOM_ENDPOINT.baseUrl}
+                  title="Base URL of an OpenAI-compatible server (Ollama, LM Studio, vLLM)"
+                  className="bg-transparent border-none focus:ring-0 text-gray-700 outline-none w-44 text-[11px] font-mono"
+                  autoComplete="off"
+                />
+                <input
+                  id="embedding-model-input"
+                  type="text"
+                  value={customEndpoint.embeddingModel}
+                  onChange={(e) => setCustomEndpoint(prev => ({ ...prev, embeddingModel: e.target.value.trim() }))}
+                  placeholder={DEFAULT_CUSTOM_ENDPOINT.embeddingModel}
+                  title="Embedding model used for Smart Search on this server"
+                  className="bg-transparent border-l border-gray-200 pl-2 focus:ring-0 text-gray-700 outline-none w-28 text-[11px] font-mono"
+                  autoComplete="off"
+                />
+                <input
+                  id="context-window-input"
+                  type="number"
+                  min={1024}
+                  value={customEndpoint.contextWindow}
+                  onChange={(e) => setCustomEndpoint(prev => ({ ...prev, contextWindow: Number(e.target.value) }))}
+                  title="Context window (tokens) configured on the server"
+                  className="bg-transparent border-l border-gray-200 pl-2 focus:ring-0 text-gray-700 outline-none w-16 text-[11px] font-mono"
+                />
+              </div>
+            )}
+
+            <div className={`flex items-center gap-2 text-xs font-semibold px-2 py-1.5 rounded-lg border transition-all ${!isVendorReady ? 'bg-amber-50 border-amber-200 ring-2 ring-amber-500 animate-pulse' : 'bg-gray-50 border-gray-200 text-gray-500 hover:border-[#0077B5]/30'}`}>
               <div
                 className="group relative flex items-center gap-1.5 cursor-help"
                 title="Your key stays in your browser. We never send it to our servers."
               >
-                <ShieldCheck className={`w-3.5 h-3.5 ${!currentApiKey ? 'text-amber-600' : 'text-green-600'}`} />
-                <span className={`hidden lg:inline text-[9px] uppercase tracking-tighter ${!currentApiKey ? 'text-amber-700' : 'text-gray-400'}`}>Local Only</span>
+                <ShieldCheck className={`w-3.5 h-3.5 ${!isVendorReady ? 'text-amber-600' : 'text-green-600'}`} />
+                <span className={`hidden lg:inline text-[9px] uppercase tracking-tighter ${!isVendorReady ? 'text-amber-700' : 'text-gray-400'}`}>Local Only</span>
               </div>
 
               <input
@@ -408,7 +889,7 @@ const App: React.FC = () => {
                 type="text"
                 value={currentApiKey}
                 onChange={(e) => handleApiKeyChange(e.target.value)}
-                placeholder={`${selectedVendor.toUpperCase()} API Key...`}
+                placeholder={selectedVendor === Vendor.CUSTOM ? 'API Key (optional)' : `${selectedVendor.toUpperCase()} API Key...`}
                 className="bg-transparent border-none focus:ring-0 text-gray-700 outline-none w-28 text-[11px] font-mono"
                 style={{ WebkitTextSecurity: showApiKey ? 'none' : 'disc' } as any}
                 autoComplete="off"
@@ -430,10 +911,10 @@ const App: React.FC = () => {
                 value={selectedModel}
                 onChange={(e) => setSelectedModel(e.target.value)}
                 className="bg-transparent border-none focus:ring-0 text-gray-700 cursor-pointer outline-none max-w-[150px]"
-                disabled={isModelLoading || !currentApiKey}
+                disabled={isModelLoading || !isVendorReady}
               >
-                {!currentApiKey ? (
-                  <option>Set API Key first...</option>
+                {!isVendorReady ? (
+                  <option>{selectedVendor === Vendor.CUSTOM ? 'Set endpoint URL first...' : 'Set API Key first...'}</option>
                 ) : availableModels.length > 0 ? (
                   availableModels.map(m => (
                     <option key={m.name} value={m.name}>
@@ -446,8 +927,8 @@ const App: React.FC = () => {
               </select>
               <button
                 onClick={loadModels}
-                disabled={!currentApiKey}
-                className={`p-1 hover:bg-gray-200 rounded-full transition-all ${isModelLoading ? 'animate-spin' : ''} ${!currentApiKey ? 'opacity-50 cursor-not-allowed' : ''}`}
+                disabled={!isVendorReady}
+                className={`p-1 hover:bg-gray-200 rounded-full transition-all ${isModelLoading ? 'animate-spin' : ''} ${!isVendorReady ? 'opacity-50 cursor-not-allowed' : ''}`}
               >
                 <RefreshCw className="w-3.5 h-3.5 text-gray-400" />
               </button>
@@ -478,26 +959,78 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="flex items-center gap-4">
+                  <select
+                    id="variant-count-select"
+                    value={variantCount}
+                    onChange={(e) => setVariantCount(Number(e.target.value))}
+                    disabled={isLoading}
+                    title="Generate several candidates and compare them side by side"
+                    className="h-11 px-3 bg-white border border-gray-200 rounded-md text-xs font-bold text-gray-600 outline-none focus:border-[#0077B5] cursor-pointer"
+                  >
+                    {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                      <option key={n} value={n}>{n === 1 ? '1 Draft' : `${n} Variants`}</option>
+                    ))}
+                  </select>
+                  {hasSmartSearchDocs && (
+                    <select
+                      id="query-expansion-select"
+                      value={queryExpansion}
+                      onChange={(e) => setQueryExpansion(e.target.value as QueryExpansion)}
+                      disabled={isLoading}
+                      title="Smart Search queries: the key points alone, model-written sub-queries, or a hypothetical answer passage"
+                      className="h-11 px-3 bg-white border border-gray-200 rounded-md text-xs font-bold text-gray-600 outline-none focus:border-[#0077B5] cursor-pointer"
+                    >
+                      {QUERY_EXPANSION_OPTIONS.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <label
+                    className="flex items-center gap-1.5 text-xs font-bold text-gray-600 cursor-pointer select-none"
+                    title="Return the post as editable sections: body, alternative hooks, hashtags and call to action"
+                  >
+                    <input
+                      type="checkbox"
+                      id="structured-mode-toggle"
+                      checked={structuredMode}
+                      onChange={(e) => setStructuredMode(e.target.checked)}
+                      disabled={isLoading}
+                      className="accent-purple-600"
+                    />
+                    Structured
+                  </label>
+                  {isLoading && (
+                    <Button
+                      variant="outline"
+                      onClick={handleStop}
+                      className="h-11 px-4 text-sm font-bold text-red-600 border-red-200 hover:bg-red-50"
+                      icon={<Square className="w-4 h-4 fill-current" />}
+                    >
+                      Stop
+                    </Button>
+                  )}
                   <Button
                     onClick={handleGenerate}
                     isLoading={isLoading}
-                    disabled={!currentApiKey}
-                    className={`h-11 px-6 text-sm shadow-md active:scale-[0.99] transition-all font-bold ${!currentApiKey ? 'bg-gray-300 cursor-not-allowed text-gray-500' : generatedContent ? 'bg-purple-600 hover:bg-purple-700' : 'bg-[#0077B5] hover:bg-[#004182]'}`}
+                    disabled={!isVendorReady}
+                    className={`h-11 px-6 text-sm shadow-md active:scale-[0.99] transition-all font-bold ${!isVendorReady ? 'bg-gray-300 cursor-not-allowed text-gray-500' : generatedContent ? 'bg-purple-600 hover:bg-purple-700' : 'bg-[#0077B5] hover:bg-[#004182]'}`}
                     icon={generatedContent ? <RefreshCw className="w-4 h-4" /> : <Sparkles className="w-4 h-4" />}
                   >
-                    {isLoading ? 'Architecting Content...' : !currentApiKey ? 'API Key Required' : generatedContent ? 'Update Artifact' : 'Generate Artifact'}
+                    {isStreaming ? 'Writing Draft...' : isLoading ? 'Architecting Content...' : !isVendorReady ? (selectedVendor === Vendor.CUSTOM ? 'Endpoint Required' : 'API Key Required') : generatedContent ? 'Update Artifact' : 'Generate Artifact'}
                   </Button>
                 </div>
               </div>
 
               <div className="flex-1 relative overflow-hidden flex flex-col">
-                {!currentApiKey && (
+                {!isVendorReady && (
                   <div className="absolute inset-0 bg-white/40 backdrop-blur-[2px] z-40 flex flex-col items-center justify-start pt-20 text-center p-8 animate-in fade-in zoom-in-95 duration-300">
                     <div className="bg-white shadow-2xl border border-amber-100 p-8 rounded-3xl max-w-sm flex flex-col items-center">
                       <div className="bg-amber-100 p-4 rounded-full mb-4">
                         <Key className="w-8 h-8 text-amber-600" />
                       </div>
-                      <h3 className="text-xl font-bold text-gray-900 mb-2">Configure your {selectedVendor.toUpperCase()} API Key to begin</h3>
+                      <h3 className="text-xl font-bold text-gray-900 mb-2">
+                        {selectedVendor === Vendor.CUSTOM ? 'Configure your custom endpoint URL to begin' : `Configure your ${selectedVendor.toUpperCase()} API Key to begin`}
+                      </h3>
                       <p className="text-sm text-gray-600 mb-6">
                         To protect your privacy, we don't store your API key on our servers. Please enter it in the top settings to activate the laboratory.
                       </p>
@@ -509,7 +1042,7 @@ const App: React.FC = () => {
                   </div>
                 )}
 
-                <div className={`p-6 flex-1 overflow-y-auto space-y-6 bg-gray-50/30 transition-all duration-500 ${!currentApiKey ? 'filter blur-[4px] opacity-20 pointer-events-none' : ''}`}>
+                <div className={`p-6 flex-1 overflow-y-auto space-y-6 bg-gray-50/30 transition-all duration-500 ${!isVendorReady ? 'filter blur-[4px] opacity-20 pointer-events-none' : ''}`}>
 
                   <TextArea
                     label="Post/Article to Answer"
@@ -555,12 +1088,37 @@ const App: React.FC = () => {
                     className="min-h-[250px] text-base font-medium resize-none"
                   />
 
+                  <AdvancedSettings
+                    params={currentParams}
+                    onChange={(params) => setGenerationParams(prev => ({ ...prev, [paramsKey]: params }))}
+                    supportedParams={getProvider(selectedVendor).getSupportedParams(selectedModel)}
+                    modelLabel={selectedModel.replace('models/', '')}
+                  />
+
                   <DocumentManager
                     documents={documents}
                     setDocuments={setDocuments}
-                    vendor={selectedVendor}
-                    apiKey={currentApiKey}
+                    vendor={ragVendor}
+                    embeddingModel={ragEmbeddingModel}
+                    apiKey={ragApiKey}
+                    isVendorReady={isRagVendorReady}
+                    onEmbeddingVendorChange={getProvider(selectedVendor).supportsEmbeddings ? undefined : setEmbeddingVendor}
+                  />
+
+                  <SmartSearchSettings settings={retrievalSettings} onChange={setRetrievalSettings} />
+
+                  <RetrievalInspector
+                    query={braindump || context}
+                    documents={documents}
+                    settings={retrievalSettings}
+                    overrides={chunkOverrides}
+                    onOverridesChange={setChunkOverrides}
+                    vendor={ragVendor}
+                    apiKey={ragApiKey}
+                    isVendorReady={isRagVendorReady}
                   />
+
+                  <TokenBudgetMeter report={budgetEstimate} />
                 </div>
               </div>
             </section>
@@ -592,6 +1150,15 @@ const App: React.FC = () => {
                   <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wide">Resulting Draft</h3>
                 </div>
                 <div className="flex items-center gap-2">
+                  {variants.length > 0 && (
+                    <button
+                      onClick={() => setShowVariants(true)}
+                      className="text-[10px] font-bold text-purple-500 hover:text-purple-700 uppercase tracking-wider flex items-center gap-1 transition-colors px-2 py-1 rounded hover:bg-purple-50"
+                      title="Reopen the side-by-side comparison"
+                    >
+                      <Columns3 className="w-3 h-3" /> Variants ({variants.length})
+                    </button>
+                  )}
                   {generatedContent && (
                     <>
                       <button
@@ -601,6 +1168,21 @@ const App: React.FC = () => {
                       >
                         <FilePlus2 className="w-3 h-3" /> New
                       </button>
+                      {citations.length > 0 && (
+                        <label
+                          className="flex items-center gap-1 text-[10px] font-bold text-gray-400 uppercase tracking-wider cursor-pointer"
+                          title="Citation markers like [1] mean nothing on LinkedIn"
+                        >
+                          <input
+                            type="checkbox"
+                            id="strip-citations-toggle"
+                            checked={stripCitations}
+                            onChange={(e) => setStripCitations(e.target.checked)}
+                            className="accent-[#0077B5]"
+                          />
+                          Copy without [n]
+                        </label>
+                      )}
                       <Button
                         variant="outline"
                         onClick={handleCopy}
@@ -616,52 +1198,45 @@ const App: React.FC = () => {
 
               <div className="p-0 flex-1 relative bg-gray-50/30 flex flex-col overflow-hidden">
                 <div className="flex-1 overflow-y-auto">
-                  {isLoading && (
+                  {isLoading && !isStreaming && (
                     <div className="absolute inset-0 bg-white/90 flex flex-col items-center justify-center p-8 text-center z-10 backdrop-blur-sm animate-in fade-in">
                       <div className="w-16 h-16 border-4 border-[#0077B5]/10 border-t-[#0077B5] rounded-full animate-spin mb-4"></div>
                       <p className="font-bold text-gray-900">Consulting Knowledge Base...</p>
+                      {retryStatus && <p id="retry-status" className="text-xs text-amber-600 font-semibold mt-2">{retryStatus}</p>}
                     </div>
                   )}
 
                   {error && (
-                    <div className="h-full flex flex-col items-center justify-center text-center p-6 z-20">
-                      <AlertCircle className="w-10 h-10 text-red-500 mb-2 opacity-50" />
-                      <p className="text-xs text-red-600 bg-red-50 p-4 rounded-lg border border-red-100 w-full font-mono">
-                        {error}
-                      </p>
-                      <Button variant="outline" className="mt-4" onClick={() => setError(null)}>Clear Error</Button>
-                    </div>
+                    <ErrorBanner error={error} baseUrl={customEndpoint.baseUrl} onClear={() => setError(null)} />
                   )}
 
                   {generatedContent ? (
                     <div className="flex-shrink-0 flex flex-col animate-in fade-in slide-in-from-bottom-2 duration-300">
+                      {structuredDraft && (
+                        <StructuredDraftEditor draft={structuredDraft} onChange={handleStructuredChange} />
+                      )}
                       <textarea
                         ref={draftAreaRef}
                         className="w-full p-6 bg-transparent border-none focus:ring-0 text-gray-800 leading-relaxed font-sans text-base resize-none outline-none overflow-hidden"
                         value={generatedContent}
                         onChange={(e) => setGeneratedContent(e.target.value)}
+                        readOnly={isStreaming}
                         placeholder="Your draft will appear here..."
                       />
 
-                      {sources.length > 0 && (
-                        <div className="p-6 pt-2 border-t border-gray-100 bg-white/50 overflow-y-auto max-h-[150px]">
-                          <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3">Grounding Sources</h4>
-                          <div className="grid grid-cols-1 gap-2">
-                            {sources.map((s, i) => (
-                              <a
-                                key={i}
-                                href={s.uri}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-100 rounded-lg text-xs font-semibold text-[#0077B5] hover:bg-blue-50 transition-all shadow-sm"
-                              >
-                                <ExternalLink className="w-3 h-3 flex-shrink-0" />
-                                <span className="truncate">{s.title}</span>
-                              </a>
-                            ))}
-                          </div>
+                      {lastBudget && (lastBudget.condensed.length > 0 || lastBudget.dropped.length > 0 || lastBudget.droppedChunks > 0) && (
+                        <div id="budget-trim-notice" className="mx-6 mb-4 flex items-start gap-2 text-[10px] leading-relaxed text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+                          <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          <p>
+                            Trimmed to fit the context window.
+                            {lastBudget.condensed.length > 0 && ` Condensed: ${lastBudget.condensed.join(', ')}.`}
+                            {lastBudget.dropped.length > 0 && ` Dropped: ${lastBudget.dropped.join(', ')}.`}
+                            {lastBudget.droppedChunks > 0 && ` ${lastBudget.droppedChunks} knowledge chunks left out.`}
+                          </p>
                         </div>
                       )}
+
+                      <SourcesPanel sources={sources} citations={citations} queries={retrievalQueries} vectorSearchSkipped={vectorSearchSkipped} draft={generatedContent} />
                     </div>
                   ) : (
                     !isLoading && !error && (
@@ -679,11 +1254,27 @@ const App: React.FC = () => {
         </div >
       </main >
 
+      {showVariants && variants.length > 0 && (
+        <VariantCompare
+          variants={variants}
+          onPromote={handlePromoteVariant}
+          onClose={() => setShowVariants(false)}
+        />
+      )}
+
+      {showUsage && (
+        <UsageDashboard
+          prices={prices}
+          onPricesChange={setPrices}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
       <footer className="bg-white border-t border-gray-200 px-6 py-2 flex items-center justify-between text-[10px] text-gray-400 font-bold uppercase tracking-widest flex-shrink-0">
         <div className="flex gap-4">
-          <span>Vendor: {selectedVendor.toUpperCase()}</span>
+          <span>Vendor: {selectedVendor.toUpperCase()}{isMockMode() ? ' (MOCK)' : ''}</span>
           <span>Engine: {selectedModel.split('-').pop()?.toUpperCase()}</span>
-          <span>Status: Standby</span>
+          <span>Status: {isStreaming ? 'Streaming' : isLoading ? 'Working' : 'Standby'}</span>
         </div>
         <span>LinkedIn Architect v3.0 Multi-Engine</span>
       </footer>
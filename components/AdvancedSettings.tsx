@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { GenerationParams, GenerationParamKey } from '../types';
+
+interface AdvancedSettingsProps {
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  supportedParams: GenerationParamKey[];
+  modelLabel: string;
+}
+
+const FIELDS: { key: GenerationParamKey; label: string; hint: string; min: number; max: number; step: number }[] = [
+  { key: 'temperature', label: 'Temperature', hint: 'Higher is more creative, lower is more focused.', min: 0, max: 2, step: 0.1 },
+  { key: 'topP', label: 'Top-P', hint: 'Nucleus sampling cut-off.', min: 0, max: 1, step: 0.05 },
+  { key: 'maxOutputTokens', label: 'Max Output Tokens', hint: 'Upper bound on the length of the reply.', min: 1, max: 65536, step: 1 },
+  { key: 'thinkingBudget', label: 'Thinking Budget', hint: 'Tokens the model may spend reasoning before it writes.', min: 0, max: 32768, step: 256 }
+];
+
+export const AdvancedSettings: React.FC<AdvancedSettingsProps> = ({ params, onChange, supportedParams, modelLabel }) => {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+
+  const updateParam = (key: GenerationParamKey, raw: string) => {
+    const next = { ...params };
+    if (raw === '') {
+      delete next[key];
+    } else {
+      next[key] = Number(raw);
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm flex flex-col transition-all duration-300">
+      <div
+        className="flex items-center justify-between cursor-pointer group"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+      >
+        <div className="flex items-center gap-2">
+          <div className={`p-1.5 rounded-lg transition-colors ${isCollapsed ? 'bg-gray-100' : 'bg-blue-50'}`}>
+            <SlidersHorizontal className={`w-4 h-4 ${isCollapsed ? 'text-gray-400' : 'text-[#0077B5]'}`} />
+          </div>
+          <h3 className={`text-sm font-bold uppercase tracking-wide transition-colors ${isCollapsed ? 'text-gray-400' : 'text-gray-800'}`}>
+            Advanced
+          </h3>
+          <span className="text-[10px] text-gray-400 font-mono font-bold tracking-tight">{modelLabel}</span>
+        </div>
+        <div className="text-gray-400 group-hover:text-[#0077B5] transition-all ml-4">
+          {isCollapsed ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </div>
+      </div>
+
+      {!isCollapsed && (
+        <div className="mt-4 space-y-4 animate-in slide-in-from-top-1 duration-200">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {FIELDS.map(field => {
+              const isSupported = supportedParams.includes(field.key);
+              return (
+                <label
+                  key={field.key}
+                  className={`flex flex-col gap-1.5 p-3 rounded-lg border ${isSupported ? 'border-gray-200' : 'border-dashed border-gray-200 opacity-50'}`}
+                >
+                  <span className="text-[10px] font-bold text-gray-600 uppercase tracking-widest">{field.label}</span>
+                  <input
+                    id={`param-${field.key}`}
+                    type="number"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={params[field.key] ?? ''}
+                    onChange={(e) => updateParam(field.key, e.target.value)}
+                    placeholder="Vendor default"
+                    disabled={!isSupported}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-md text-sm font-mono outline-none focus:ring-2 focus:ring-[#0077B5]/20 focus:border-[#0077B5] disabled:bg-gray-50 disabled:cursor-not-allowed"
+                  />
+                  <span className="text-[10px] text-gray-400 font-medium">
+                    {isSupported ? field.hint : 'Not supported by this model, ignored.'}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] text-gray-400 font-medium">Saved separately for each vendor and model.</p>
+            <button
+              onClick={() => onChange({})}
+              className="text-[10px] font-bold text-gray-400 hover:text-gray-600 uppercase tracking-wider flex items-center gap-1 transition-colors px-2 py-1 rounded hover:bg-gray-100"
+            >
+              <RotateCcw className="w-3 h-3" /> Defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,21 +1,91 @@
-import React, { useRef, useState } from 'react';
-import { Upload, FileText, X, CheckCircle2, Circle, Database, Loader2, BookOpen, Search, Info, ChevronDown, ChevronUp } from 'lucide-react';
-import { UploadedDocument, KnowledgeMode, Vendor } from '../types';
-import { fileToBase64, formatFileSize } from '../services/fileUtils';
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, FileText, X, CheckCircle2, Circle, Database, Loader2, BookOpen, Search, Info, ChevronDown, ChevronUp, Play, RefreshCw, Download, PackageOpen, Linkedin } from 'lucide-react';
+import { UploadedDocument, KnowledgeMode, Vendor, ChunkingSettings, ChunkingStrategy, EmbeddingIndex } from '../types';
+import { downloadFile, fileToBase64, formatFileSize } from '../services/fileUtils';
 import { ragService } from '../services/ragService';
-import { getProvider } from '../services/llmFactory';
+import { getEmbeddingVendors } from '../services/llmFactory';
+import { CHUNKING_STRATEGIES, DEFAULT_CHUNKING } from '../services/chunking';
+import { IngestionProgress, SUPPORTED_EXTENSIONS, canKeepIndexes, detectFormat, getFormatMimeType, indexDocument, parseDocument } from '../services/ingestion';
+import { StorageEstimate, documentStore } from '../services/documentStore';
+import { ImportReport, exportBundle, importBundle, parseBundle } from '../services/knowledgeBundle';
+import { formatArchive, readLinkedInArchive } from '../services/linkedinArchive';
+import { classifyError, getErrorHelp } from '../services/providerErrors';
+
+const CHUNK_SIZES = [100, 250, 400, 600];
+
+const describeProgress = ({ stage, done, total }: IngestionProgress): string => {
+  if (stage === 'parsing') return total ? `Reading part ${done} of ${total}` : 'Opening file';
+  if (stage === 'ocr') return done ? `Recognizing scanned page ${done} of ${total}` : 'Loading text recognition';
+  if (stage === 'chunking') return 'Splitting into chunks';
+  return `Embedding ${done} of ${total} chunks`;
+};
+
+const describeIndexes = (indexes: EmbeddingIndex[] = []): string =>
+  indexes.length > 0 ? indexes.map(i => `${i.vendor.toUpperCase()} (${i.model || 'unknown model'})`).join(', ') : 'no vendor';
+
+// Analyzed, but not with the embeddings Smart Search now searches: only keyword search finds it
+const isStale = (doc: UploadedDocument, vendor: Vendor, model: string): boolean =>
+  !!doc.isIndexed && !doc.indexProgress && !doc.embeddingIndexes?.some(i => i.vendor === vendor && i.model === model);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const summarizeImport = ({ imported, duplicates, rejectedIndexes, needsReindex }: ImportReport): string[] => [
+  `Imported ${plural(imported.length, 'document')}.`,
+  ...(duplicates.length > 0 ? [`Skipped, already here: ${duplicates.join(', ')}.`] : []),
+  ...rejectedIndexes.map(reason => `Embeddings left out: ${reason}.`),
+  ...(needsReindex.length > 0 ? [`Need re-indexing for the current embedding model: ${needsReindex.join(', ')}.`] : [])
+];
+
+const ProgressBar: React.FC<{ label: string; done: number; total: number; onCancel: () => void }> = ({ label, done, total, onCancel }) => (
+  <div className="index-progress space-y-1 px-1">
+    <div className="flex items-center justify-between gap-2 text-[10px] font-bold text-gray-400">
+      <span className="index-progress-label truncate">{label}</span>
+      <button
+        onClick={onCancel}
+        className="index-cancel uppercase tracking-wider hover:text-red-500 transition-colors flex-shrink-0"
+      >
+        Cancel
+      </button>
+    </div>
+    <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+      <div className="h-full bg-[#0077B5] transition-all duration-300" style={{ width: `${total ? Math.round(done / total * 100) : 0}%` }} />
+    </div>
+  </div>
+);
 
 interface DocumentManagerProps {
   documents: UploadedDocument[];
   setDocuments: React.Dispatch<React.SetStateAction<UploadedDocument[]>>;
-  vendor: Vendor;
+  vendor: Vendor; // Vendor and model used to embed documents for Smart Search
+  embeddingModel: string;
   apiKey: string;
+  isVendorReady: boolean; // Key (or endpoint, for custom servers) configured for the embedding vendor
+  // Provided when the generating vendor has no embeddings API, so the user picks one for Smart Search
+  onEmbeddingVendorChange?: (vendor: Vendor) => void;
 }
 
-export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, setDocuments, vendor, apiKey }) => {
+export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, setDocuments, vendor, embeddingModel, apiKey, isVendorReady, onEmbeddingVendorChange }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [isIndexing, setIsIndexing] = useState<string | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const [bundleNotice, setBundleNotice] = useState<string[] | null>(null);
+  // Running jobs by document id: PDFs being parsed on upload, documents being indexed
+  const [uploads, setUploads] = useState<Record<string, { name: string; progress: IngestionProgress }>>({});
+  const [indexing, setIndexing] = useState<Record<string, IngestionProgress>>({});
+  const controllers = useRef(new Map<string, AbortController>());
+  // Indexing runs, settled or not, so a removal can wait for the last write of a cancelled one
+  const indexRuns = useRef(new Map<string, Promise<unknown>>());
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+
+  // Uploads, indexing and removals all change the list, so it is a good time to re-measure
+  useEffect(() => {
+    documentStore.estimateStorage()
+      .then(setStorage)
+      .catch(err => console.warn("Failed to estimate storage:", err));
+  }, [documents]);
+
+  const cancelJob = (id: string) => controllers.current.get(id)?.abort();
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -25,40 +95,46 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      const isPDF = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
-      const isText = file.type.startsWith('text/') ||
-        file.name.toLowerCase().endsWith('.md') ||
-        file.name.toLowerCase().endsWith('.txt');
+      const format = detectFormat(file);
 
-      if (isPDF || isText) {
+      if (format) {
+        const id = crypto.randomUUID();
+        const controller = new AbortController();
         try {
           const base64 = await fileToBase64(file);
-          let parsedText = '';
-
-          if (isPDF) {
-            parsedText = await ragService.parsePDF(base64);
-          } else {
-            // Use modern file.text() for robust UTF-8 reading
-            parsedText = await file.text();
-          }
+          // PDFs are parsed in a worker so long reports don't freeze the page
+          controllers.current.set(id, controller);
+          const { text: parsedText, ocr, unreadPages } = await parseDocument(file, format, {
+            signal: controller.signal,
+            onProgress: progress => setUploads(prev => ({ ...prev, [id]: { name: file.name, progress } }))
+          });
 
+          // The contents go to IndexedDB; the list only keeps what the UI needs
+          await documentStore.saveContents([{ id, data: base64, parsedText }]);
           newDocs.push({
-            id: crypto.randomUUID(),
+            id,
             name: file.name,
-            mimeType: file.type || (isPDF ? 'application/pdf' : 'text/plain'),
-            data: base64,
-            parsedText,
+            mimeType: file.type || getFormatMimeType(format),
+            textLength: parsedText.length,
             isActive: true,
             size: file.size,
             knowledgeMode: KnowledgeMode.CONTEXT,
-            isIndexed: false
+            isIndexed: false,
+            ocr,
+            unreadPages
           });
         } catch (error) {
-          console.error("Error reading file", file.name, error);
-          alert(`Error reading ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          // A cancelled upload is simply left out
+          if (!controller.signal.aborted) {
+            console.error("Error reading file", file.name, error);
+            alert(`Error reading ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        } finally {
+          controllers.current.delete(id);
+          setUploads(({ [id]: _, ...rest }) => rest);
         }
       } else {
-        alert(`File type "${file.type}" for "${file.name}" not supported. Please upload PDF or Text (.txt, .md).`);
+        alert(`File type "${file.type}" for "${file.name}" not supported. Please upload PDF, Word (.docx), web page (.html), EPUB or Text (.txt, .md).`);
       }
     }
 
@@ -68,29 +144,64 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const handleIndexDocument = async (doc: UploadedDocument) => {
-    if (!apiKey) {
-      alert("Please provide an API Key to analyze documents for Smart Search.");
+  const handleIndexDocument = async (doc: UploadedDocument, resume = false) => {
+    if (!isVendorReady) {
+      alert(`Please provide a ${vendor.toUpperCase()} API Key to analyze documents for Smart Search.`);
       return;
     }
+    if (controllers.current.has(doc.id)) return;
+    // Indexes of chunks cut another way (older versions, other settings) are rebuilt, not added to
+    resume &&= canKeepIndexes(doc);
 
-    setIsIndexing(doc.id);
+    const controller = new AbortController();
+    controllers.current.set(doc.id, controller);
+    const reached = { embedded: 0, total: 0 };
     try {
-      const provider = getProvider(vendor);
-      const text = doc.parsedText || atob(doc.data);
-      const chunks = ragService.chunkText(text, doc.id);
-      const embeddings = await provider.generateEmbeddings(apiKey, chunks.map(c => c.text));
-
-      await ragService.saveChunks(chunks, vendor, embeddings);
+      const run = indexDocument({
+        doc,
+        vendor,
+        apiKey,
+        resume,
+        signal: controller.signal,
+        onProgress: progress => {
+          if (progress.stage === 'embedding') Object.assign(reached, { embedded: progress.done, total: progress.total });
+          setIndexing(prev => ({ ...prev, [doc.id]: progress }));
+        }
+      });
+      indexRuns.current.set(doc.id, run.catch(() => undefined));
+      const index = await run;
 
-      setDocuments(prev => prev.map(d =>
-        d.id === doc.id ? { ...d, isIndexed: true, knowledgeMode: KnowledgeMode.RAG } : d
-      ));
+      // A fresh run dropped the indexes of other vendors; a resumed one adds to them
+      setDocuments(prev => prev.map(d => d.id === doc.id ? {
+        ...d,
+        isIndexed: true,
+        knowledgeMode: KnowledgeMode.RAG,
+        indexProgress: undefined,
+        embeddingIndexes: [
+          ...(resume ? (d.embeddingIndexes || []).filter(i => i.vendor !== index.vendor || i.model !== index.model) : []),
+          index
+        ]
+      } : d));
     } catch (error) {
-      console.error("Indexing failed:", error);
-      alert("Failed to analyze document. Check console and API key.");
+      // Once embedding has started a fresh run has dropped the old indexes, so the document waits
+      // for a resume. A resumed run only adds embeddings: what was searchable stays searchable.
+      if (reached.total > 0) {
+        setDocuments(prev => prev.map(d => d.id === doc.id ? {
+          ...d,
+          isIndexed: resume && d.isIndexed,
+          indexProgress: { ...reached },
+          embeddingIndexes: resume ? d.embeddingIndexes : []
+        } : d));
+      }
+      if (!controller.signal.aborted) {
+        console.error("Indexing failed:", error);
+        const { title, fix } = getErrorHelp(classifyError(error, vendor));
+        alert(`Failed to analyze document. ${title}: ${fix}`);
+      }
     } finally {
-      setIsIndexing(null);
+      controllers.current.delete(doc.id);
+      indexRuns.current.delete(doc.id);
+      setIndexing(({ [doc.id]: _, ...rest }) => rest);
     }
   };
 
@@ -103,7 +214,7 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
   const setKnowledgeMode = (id: string, mode: KnowledgeMode) => {
     const doc = documents.find(d => d.id === id);
     if (mode === KnowledgeMode.RAG && doc && !doc.isIndexed) {
-      handleIndexDocument(doc);
+      handleIndexDocument(doc, Boolean(doc.indexProgress));
     } else {
       setDocuments(prev => prev.map(d =>
         d.id === id ? { ...d, knowledgeMode: mode } : d
@@ -111,8 +222,92 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
     }
   };
 
+  const updateChunking = (doc: UploadedDocument, changes: Partial<ChunkingSettings>) => {
+    const chunking = { ...(doc.chunking || DEFAULT_CHUNKING), ...changes };
+    setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, chunking } : d));
+    // Chunks are cut at indexing time, so an analyzed (or paused) document is re-indexed from scratch
+    if (doc.isIndexed || doc.indexProgress) handleIndexDocument({ ...doc, chunking });
+  };
+
+  const staleDocs = documents.filter(doc => doc.isActive && doc.knowledgeMode === KnowledgeMode.RAG && isStale(doc, vendor, embeddingModel));
+
+  // Embeds the existing chunks for the current vendor and model, keeping the other indexes
+  const reindexStale = () => staleDocs.forEach(doc => handleIndexDocument(doc, true));
+
+  // The selected (active) documents, with their indexes, as one file a colleague can import
+  const handleExport = async () => {
+    try {
+      const bundle = await exportBundle(documents.filter(doc => doc.isActive));
+      downloadFile(`knowledge-base-${bundle.exportedAt.slice(0, 10)}.json`, JSON.stringify(bundle), 'application/json');
+    } catch (error) {
+      console.error("Export failed:", error);
+      alert(`Failed to export the knowledge base: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // A LinkedIn data export becomes one document of dated posts and comments, searchable once
+  // indexed, whose recent posts also serve as examples of the user's voice
+  const handleArchiveImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (archiveInputRef.current) archiveInputRef.current.value = '';
+    if (!file) return;
+    try {
+      const records = await readLinkedInArchive(await file.arrayBuffer());
+      if (records.length === 0) throw new Error('The export has no posts or comments with text.');
+      const parsedText = formatArchive(records);
+      const id = crypto.randomUUID();
+      // The ZIP is not kept: it holds much more than posts, and only the text is used
+      await documentStore.saveContents([{ id, data: '', parsedText }]);
+      const doc: UploadedDocument = {
+        id,
+        name: file.name,
+        mimeType: 'text/markdown',
+        textLength: parsedText.length,
+        isActive: true,
+        size: file.size,
+        knowledgeMode: KnowledgeMode.CONTEXT,
+        isIndexed: false,
+        linkedinArchive: {
+          posts: records.filter(record => record.kind === 'post').length,
+          comments: records.filter(record => record.kind === 'comment').length,
+          styleReference: true
+        }
+      };
+      setDocuments(prev => [...prev, doc]);
+      // Years of posts are too long to send whole, so Smart Search is where they belong
+      if (isVendorReady) handleIndexDocument(doc);
+    } catch (error) {
+      console.error("LinkedIn export import failed:", error);
+      alert(`Failed to import ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const setStyleReference = (id: string, styleReference: boolean) => {
+    setDocuments(prev => prev.map(doc =>
+      doc.id === id && doc.linkedinArchive ? { ...doc, linkedinArchive: { ...doc.linkedinArchive, styleReference } } : doc
+    ));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (bundleInputRef.current) bundleInputRef.current.value = '';
+    if (!file) return;
+    try {
+      const { documents: imported, report } = await importBundle(parseBundle(await file.text()), documents, { vendor, model: embeddingModel });
+      setDocuments(prev => [...prev, ...imported]);
+      setBundleNotice(summarizeImport(report));
+    } catch (error) {
+      console.error("Import failed:", error);
+      setBundleNotice([`Failed to import ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`]);
+    }
+  };
+
   const removeDocument = async (id: string) => {
+    cancelJob(id);
+    // A cancelled run still saves the batch it was paid for: delete after it, or that batch outlives the document
+    await indexRuns.current.get(id);
     await ragService.deleteDocumentData(id);
+    await documentStore.deleteContent(id);
     setDocuments(prev => prev.filter(doc => doc.id !== id));
   };
 
@@ -162,16 +357,59 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
             ref={fileInputRef}
             className="hidden"
             onChange={handleFileUpload}
-            accept=".pdf,.txt,.md"
+            accept={SUPPORTED_EXTENSIONS.join(',')}
           />
 
+          {onEmbeddingVendorChange && (
+            <div className="flex items-center justify-between gap-3 mb-4 px-3 py-2 bg-amber-50/60 border border-amber-100 rounded-xl text-[10px]">
+              <p className="text-amber-700 font-medium">
+                This vendor has no embeddings. Smart Search indexes with:
+                {!isVendorReady && <span className="block font-bold">Add a {vendor.toUpperCase()} key via the vendor selector first.</span>}
+              </p>
+              <select
+                id="embedding-vendor-select"
+                value={vendor}
+                onChange={(e) => onEmbeddingVendorChange(e.target.value as Vendor)}
+                className="bg-white border border-amber-200 rounded-md px-2 py-1 font-bold text-gray-700 outline-none cursor-pointer"
+              >
+                {getEmbeddingVendors().map(v => (
+                  <option key={v.id} value={v.id}>{v.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {staleDocs.length > 1 && (
+            <div id="stale-index-banner" className="flex items-center justify-between gap-3 mb-4 px-3 py-2 bg-amber-50/60 border border-amber-100 rounded-xl text-[10px]">
+              <p className="text-amber-700 font-medium">
+                {staleDocs.length} documents need re-indexing for {vendor.toUpperCase()} ({embeddingModel}). Until then Smart Search only matches their keywords.
+              </p>
+              <button
+                onClick={reindexStale}
+                disabled={!isVendorReady}
+                className="reindex-all flex items-center gap-1 font-bold text-[#0077B5] uppercase tracking-wider hover:text-[#005a8a] transition-colors flex-shrink-0 disabled:opacity-40"
+              >
+                <RefreshCw className="w-3 h-3" /> Re-index all
+              </button>
+            </div>
+          )}
+
           <div className="space-y-4 max-h-[400px] overflow-y-auto pr-2">
-            {documents.length === 0 && (
+            {Object.entries(uploads).map(([id, { name, progress }]) => (
+              <div key={id} className="pdf-upload flex flex-col gap-3 p-4 rounded-xl border border-gray-100 bg-gray-50/50">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Loader2 className="w-4 h-4 text-[#0077B5] animate-spin flex-shrink-0" />
+                  <p className="text-sm font-bold text-gray-500 truncate">{name}</p>
+                </div>
+                <ProgressBar label={describeProgress(progress)} done={progress.done} total={progress.total} onCancel={() => cancelJob(id)} />
+              </div>
+            ))}
+            {documents.length === 0 && Object.keys(uploads).length === 0 && (
               <div className="flex flex-col items-center justify-center py-12 border-2 border-dashed border-gray-100 rounded-2xl text-gray-400 space-y-3 bg-gray-50/30">
                 <FileText className="w-10 h-10 opacity-10" />
                 <div className="text-center">
                   <p className="text-xs font-bold text-gray-500">Your library is empty</p>
-                  <p className="text-[10px] uppercase tracking-widest text-gray-400 mt-1">Upload PDFs or text files to begin</p>
+                  <p className="text-[10px] uppercase tracking-widest text-gray-400 mt-1">Upload PDF, Word, web page, EPUB or text files</p>
                 </div>
               </div>
             )}
@@ -198,8 +436,24 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
                       <div className="flex items-center gap-3 mt-0.5">
                         <span className="text-[10px] text-gray-400 font-mono font-bold tracking-tight">{formatFileSize(doc.size)}</span>
                         {doc.isActive && (
-                          <span className={`text-[9px] font-black px-1.5 py-0.5 rounded uppercase tracking-tighter ${doc.isIndexed ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
-                            {doc.isIndexed ? 'Analyzed' : 'Ready'}
+                          <span className={`text-[9px] font-black px-1.5 py-0.5 rounded uppercase tracking-tighter ${doc.isIndexed && !isStale(doc, vendor, embeddingModel) ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+                            {isStale(doc, vendor, embeddingModel) ? 'Stale' : doc.isIndexed ? 'Analyzed' : doc.indexProgress ? 'Paused' : 'Ready'}
+                          </span>
+                        )}
+                        {doc.ocr && (
+                          <span
+                            className="ocr-badge text-[9px] font-black px-1.5 py-0.5 rounded uppercase tracking-tighter bg-purple-100 text-purple-700"
+                            title={`Text of ${doc.ocr.pages.length === 1 ? 'page' : 'pages'} ${doc.ocr.pages.join(', ')} was read from scanned images and may contain misread words`}
+                          >
+                            OCR {Math.round(doc.ocr.confidence)}%
+                          </span>
+                        )}
+                        {doc.unreadPages && (
+                          <span
+                            className="unread-pages-badge text-[9px] font-black px-1.5 py-0.5 rounded uppercase tracking-tighter bg-amber-100 text-amber-700"
+                            title={`${doc.unreadPages.length === 1 ? 'Page' : 'Pages'} ${doc.unreadPages.join(', ')} ${doc.unreadPages.length === 1 ? 'is a scan' : 'are scans'} that couldn't be read, so ${doc.unreadPages.length === 1 ? 'it has' : 'they have'} no text`}
+                          >
+                            No text: p. {doc.unreadPages.join(', ')}
                           </span>
                         )}
                       </div>
@@ -207,7 +461,7 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
                   </div>
                   <button
                     onClick={() => removeDocument(doc.id)}
-                    className="text-gray-300 hover:text-red-500 transition-colors p-1.5 hover:bg-red-50 rounded-md"
+                    className="document-remove text-gray-300 hover:text-red-500 transition-colors p-1.5 hover:bg-red-50 rounded-md"
                   >
                     <X className="w-4 h-4" />
                   </button>
@@ -215,6 +469,23 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
 
                 {doc.isActive && (
                   <div className="space-y-3">
+                    {doc.linkedinArchive && (
+                      <div className="linkedin-archive flex items-center justify-between gap-2 px-3 py-2 bg-blue-50/40 border border-blue-100 rounded-lg text-[10px]">
+                        <span className="flex items-center gap-1.5 text-gray-600 font-medium">
+                          <Linkedin className="w-3 h-3 text-[#0077B5]" />
+                          {plural(doc.linkedinArchive.posts, 'post')}, {plural(doc.linkedinArchive.comments, 'comment')}
+                        </span>
+                        <label className="flex items-center gap-1.5 font-bold text-gray-500 cursor-pointer" title="Send your most recent posts as examples of your voice">
+                          <input
+                            type="checkbox"
+                            className="style-reference-toggle accent-[#0077B5]"
+                            checked={doc.linkedinArchive.styleReference}
+                            onChange={(e) => setStyleReference(doc.id, e.target.checked)}
+                          />
+                          Match my voice
+                        </label>
+                      </div>
+                    )}
                     <div className="flex items-center gap-1.5 p-1 bg-gray-50 rounded-xl border border-gray-100">
                       <button
                         onClick={() => setKnowledgeMode(doc.id, KnowledgeMode.CONTEXT)}
@@ -225,10 +496,10 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
                       </button>
                       <button
                         onClick={() => setKnowledgeMode(doc.id, KnowledgeMode.RAG)}
-                        disabled={isIndexing === doc.id}
+                        disabled={doc.id in indexing}
                         className={`flex-1 py-2 px-3 text-[10px] font-bold rounded-lg transition-all flex items-center justify-center gap-2 ${doc.knowledgeMode === KnowledgeMode.RAG ? 'bg-[#0077B5] text-white shadow-md' : 'text-gray-400 hover:text-gray-600'}`}
                       >
-                        {isIndexing === doc.id ? (
+                        {doc.id in indexing ? (
                           <Loader2 className="w-3 h-3 animate-spin" />
                         ) : (
                           <Search className={`w-3 h-3 ${doc.knowledgeMode === KnowledgeMode.RAG ? 'text-white' : 'text-gray-400'}`} />
@@ -237,6 +508,68 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
                       </button>
                     </div>
 
+                    {indexing[doc.id] && (
+                      <ProgressBar
+                        label={describeProgress(indexing[doc.id])}
+                        done={indexing[doc.id].done}
+                        total={indexing[doc.id].total}
+                        onCancel={() => cancelJob(doc.id)}
+                      />
+                    )}
+                    {!indexing[doc.id] && doc.indexProgress && (
+                      <div className="index-paused flex items-center justify-between gap-2 px-3 py-2 bg-amber-50/60 border border-amber-100 rounded-lg text-[10px]">
+                        <span className="text-amber-700 font-medium">
+                          Paused at {doc.indexProgress.embedded} of {doc.indexProgress.total} chunks
+                        </span>
+                        <button
+                          onClick={() => handleIndexDocument(doc, true)}
+                          className="index-resume flex items-center gap-1 font-bold text-[#0077B5] uppercase tracking-wider hover:text-[#005a8a] transition-colors"
+                        >
+                          <Play className="w-3 h-3" /> Resume
+                        </button>
+                      </div>
+                    )}
+
+                    {!indexing[doc.id] && doc.knowledgeMode === KnowledgeMode.RAG && isStale(doc, vendor, embeddingModel) && (
+                      <div className="index-stale flex items-center justify-between gap-2 px-3 py-2 bg-amber-50/60 border border-amber-100 rounded-lg text-[10px]">
+                        <span className="text-amber-700 font-medium">
+                          Indexed for {describeIndexes(doc.embeddingIndexes)}, not {vendor.toUpperCase()} ({embeddingModel})
+                        </span>
+                        <button
+                          onClick={() => handleIndexDocument(doc, true)}
+                          className="index-reindex flex items-center gap-1 font-bold text-[#0077B5] uppercase tracking-wider hover:text-[#005a8a] transition-colors flex-shrink-0"
+                        >
+                          <RefreshCw className="w-3 h-3" /> Re-index
+                        </button>
+                      </div>
+                    )}
+
+                    {doc.knowledgeMode === KnowledgeMode.RAG && (
+                      <div className="flex items-center gap-2 px-1 text-[10px]">
+                        <span className="text-gray-400 font-bold uppercase tracking-widest">Chunking</span>
+                        <select
+                          value={(doc.chunking || DEFAULT_CHUNKING).strategy}
+                          onChange={(e) => updateChunking(doc, { strategy: e.target.value as ChunkingStrategy })}
+                          disabled={doc.id in indexing}
+                          className="chunking-strategy-select flex-1 bg-white border border-gray-200 rounded-md px-2 py-1 font-bold text-gray-600 outline-none cursor-pointer"
+                        >
+                          {CHUNKING_STRATEGIES.map(s => (
+                            <option key={s.id} value={s.id}>{s.name}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={(doc.chunking || DEFAULT_CHUNKING).chunkTokens}
+                          onChange={(e) => updateChunking(doc, { chunkTokens: Number(e.target.value) })}
+                          disabled={doc.id in indexing}
+                          className="chunking-size-select bg-white border border-gray-200 rounded-md px-2 py-1 font-bold text-gray-600 outline-none cursor-pointer"
+                        >
+                          {CHUNK_SIZES.map(size => (
+                            <option key={size} value={size}>{size} tokens</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
                     <div className="flex items-start gap-2 px-1 text-[10px] leading-relaxed">
                       <Info className="w-3 h-3 text-gray-300 mt-0.5 flex-shrink-0" />
                       {doc.knowledgeMode === KnowledgeMode.CONTEXT ? (
@@ -250,6 +583,73 @@ export const DocumentManager: React.FC<DocumentManagerProps> = ({ documents, set
               </div>
             ))}
           </div>
+
+          <input
+            type="file"
+            ref={bundleInputRef}
+            className="hidden"
+            onChange={handleImport}
+            accept=".json,application/json"
+          />
+          <input
+            type="file"
+            ref={archiveInputRef}
+            className="hidden"
+            onChange={handleArchiveImport}
+            accept=".zip,application/zip"
+          />
+          <div className="flex items-center justify-end gap-1 mt-4">
+            <button
+              id="import-linkedin-archive"
+              onClick={() => archiveInputRef.current?.click()}
+              title="Add your past posts and comments from a LinkedIn data export (ZIP)"
+              className="mr-auto text-[10px] font-bold text-gray-400 hover:text-[#0077B5] uppercase tracking-wider flex items-center gap-1 transition-colors px-2 py-1 rounded hover:bg-gray-100"
+            >
+              <Linkedin className="w-3 h-3" /> LinkedIn Export
+            </button>
+            <button
+              id="export-bundle"
+              onClick={handleExport}
+              disabled={!documents.some(doc => doc.isActive)}
+              title="Download the selected documents with their Smart Search indexes"
+              className="text-[10px] font-bold text-gray-400 hover:text-[#0077B5] uppercase tracking-wider flex items-center gap-1 transition-colors px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Download className="w-3 h-3" /> Export
+            </button>
+            <button
+              id="import-bundle"
+              onClick={() => bundleInputRef.current?.click()}
+              title="Add documents from an exported knowledge base"
+              className="text-[10px] font-bold text-gray-400 hover:text-[#0077B5] uppercase tracking-wider flex items-center gap-1 transition-colors px-2 py-1 rounded hover:bg-gray-100"
+            >
+              <PackageOpen className="w-3 h-3" /> Import
+            </button>
+          </div>
+          {bundleNotice && (
+            <div id="bundle-report" className="flex items-start justify-between gap-2 mt-2 px-3 py-2 bg-blue-50/60 border border-blue-100 rounded-lg text-[10px] text-gray-600">
+              <ul className="space-y-0.5">
+                {bundleNotice.map((line, i) => <li key={i}>{line}</li>)}
+              </ul>
+              <button onClick={() => setBundleNotice(null)} className="text-gray-400 hover:text-gray-600 flex-shrink-0">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+
+          {storage && (
+            <div id="storage-meter" className="mt-4 space-y-1 px-1" title="Documents, Smart Search indexes and usage history are kept in this browser">
+              <div className="flex items-center justify-between text-[10px] font-bold text-gray-400">
+                <span className="uppercase tracking-widest">Browser Storage</span>
+                <span className="storage-usage font-mono tracking-tight">{formatFileSize(storage.usage)} of {formatFileSize(storage.quota)}</span>
+              </div>
+              <div className="h-1 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-300 ${storage.usage / storage.quota > 0.8 ? 'bg-amber-500' : 'bg-gray-300'}`}
+                  style={{ width: `${Math.max(1, Math.round(storage.usage / storage.quota * 100))}%` }}
+                />
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,26 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Button } from './Button';
+import { ProviderError, getErrorHelp } from '../services/providerErrors';
+
+interface ErrorBannerProps {
+  error: ProviderError;
+  baseUrl?: string;
+  onClear: () => void;
+}
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, baseUrl, onClear }) => {
+  const { title, fix } = getErrorHelp(error, baseUrl);
+
+  return (
+    <div id="error-banner" data-kind={error.kind} className="h-full flex flex-col items-center justify-center text-center p-6 z-20">
+      <AlertCircle className="w-10 h-10 text-red-500 mb-2 opacity-50" />
+      <p className="text-sm font-bold text-gray-900">{title}</p>
+      <p className="text-xs text-gray-600 mt-1 mb-3 max-w-sm">{fix}</p>
+      <p className="text-xs text-red-600 bg-red-50 p-4 rounded-lg border border-red-100 w-full font-mono break-words">
+        {error.vendor.toUpperCase()}{error.status ? ` ${error.status}` : ''}: {error.message}
+      </p>
+      <Button variant="outline" className="mt-4" onClick={onClear}>Clear Error</Button>
+    </div>
+  );
+};
@@ -0,0 +1,268 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScanSearch, ChevronDown, ChevronUp, Loader2, Pin, PinOff, Ban, Undo2, X } from 'lucide-react';
+import { ChunkOverrides, KnowledgeMode, RetrievalSettings, RetrievedChunk, UploadedDocument, Vendor } from '../types';
+import { ragService } from '../services/ragService';
+import { getProvider } from '../services/llmFactory';
+import { Embeddings } from '../services/llmProvider';
+import { usageService } from '../services/usageService';
+import { formatCitationSource, toCitations } from '../services/citations';
+import { classifyError, getErrorHelp, withRetry } from '../services/providerErrors';
+
+interface RetrievalInspectorProps {
+  query: string; // What generation will search with: the key points, else the context
+  documents: UploadedDocument[];
+  settings: RetrievalSettings;
+  overrides: ChunkOverrides;
+  onOverridesChange: (overrides: ChunkOverrides) => void;
+  vendor: Vendor; // Vendor whose embeddings are searched
+  apiKey: string;
+  isVendorReady: boolean; // Without it the search runs keyword-only
+}
+
+const formatScore = (value: number | undefined, digits: number) => value === undefined ? '–' : value.toFixed(digits);
+
+// A merged passage is pinned or excluded through every chunk in it
+const memberIds = (chunk: RetrievedChunk): string[] => chunk.mergedIds || [chunk.id];
+
+const vectorKey = (vendor: Vendor, model: string, text: string) => `${vendor}\n${model}\n${text}`;
+
+export const RetrievalInspector: React.FC<RetrievalInspectorProps> = ({ query, documents, settings, overrides, onOverridesChange, vendor, apiKey, isVendorReady }) => {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [results, setResults] = useState<RetrievedChunk[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [vectorSearchSkipped, setVectorSearchSkipped] = useState<string | undefined>();
+  // Chunks seen in any run, so excluded ones can still be named after they drop out of the results
+  const [seen, setSeen] = useState<Map<string, RetrievedChunk>>(new Map());
+  // Query vectors by vendor, model and text: pins and exclusions re-rank without embedding the query again
+  const queryVectors = useRef(new Map<string, number[]>());
+  const searchController = useRef<AbortController | null>(null);
+
+  const ragDocs = documents.filter(doc => doc.isActive && doc.knowledgeMode === KnowledgeMode.RAG);
+
+  const runSearch = async () => {
+    // Only the latest search counts: a newer one replaces it
+    searchController.current?.abort();
+    const controller = new AbortController();
+    searchController.current = controller;
+    const { signal } = controller;
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      const provider = getProvider(vendor);
+      const model = provider.getEmbeddingModel();
+      const embed = async (texts: string[]): Promise<Embeddings> => {
+        const missing = texts.filter(text => !queryVectors.current.has(vectorKey(vendor, model, text)));
+        let tokens: number | undefined = 0;
+        if (missing.length > 0) {
+          const embeddings = await withRetry(() => provider.generateEmbeddings(apiKey, missing, signal), vendor, { signal });
+          missing.forEach((text, i) => queryVectors.current.set(vectorKey(vendor, model, text), embeddings.vectors[i]));
+          tokens = embeddings.tokens;
+        }
+        return { vectors: texts.map(text => queryVectors.current.get(vectorKey(vendor, model, text))!), tokens };
+      };
+      const { chunks, embeddingTokens, vectorSearchSkipped } = await ragService.retrieve({
+        queries: [query],
+        documentIds: ragDocs.map(doc => doc.id),
+        vendor,
+        model,
+        settings,
+        overrides,
+        embed: isVendorReady ? embed : undefined,
+        signal
+      });
+      if (embeddingTokens > 0) {
+        usageService.record({
+          vendor,
+          model,
+          kind: 'search',
+          inputTokens: 0,
+          outputTokens: 0,
+          embeddingTokens
+        }).catch(err => console.warn("Failed to record usage:", err));
+      }
+      // Recorded above even when cancelled: the embedding was paid for
+      signal.throwIfAborted();
+      setResults(chunks);
+      setVectorSearchSkipped(vectorSearchSkipped);
+      setSeen(prev => new Map([...prev, ...chunks.flatMap(chunk => memberIds(chunk).map(id => [id, chunk] as const))]));
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error("Retrieval inspection failed:", error);
+      const { title, fix } = getErrorHelp(classifyError(error, vendor));
+      setSearchError(`${title}: ${fix}`);
+    } finally {
+      if (searchController.current === controller) {
+        searchController.current = null;
+        setIsSearching(false);
+      }
+    }
+  };
+
+  // Keep the list in step with pins and exclusions once a search has run; the query vector is cached
+  useEffect(() => {
+    if (results) runSearch();
+  }, [overrides]);
+
+  useEffect(() => () => searchController.current?.abort(), []);
+
+  const togglePin = (ids: string[]) => {
+    const pinned = ids.some(id => overrides.pinned.includes(id))
+      ? overrides.pinned.filter(p => !ids.includes(p))
+      : [...overrides.pinned, ...ids];
+    onOverridesChange({ ...overrides, pinned });
+  };
+
+  const toggleExclude = (ids: string[]) => {
+    const excluded = ids.some(id => overrides.excluded.includes(id))
+      ? overrides.excluded.filter(e => !ids.includes(e))
+      : [...overrides.excluded, ...ids];
+    onOverridesChange({ pinned: overrides.pinned.filter(p => !ids.includes(p)), excluded });
+  };
+
+  const overrideCount = overrides.pinned.length + overrides.excluded.length;
+  const labels = toCitations(results || [], documents);
+
+  return (
+    <div id="retrieval-inspector" className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm flex flex-col transition-all duration-300">
+      <div
+        className="flex items-center justify-between cursor-pointer group"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+      >
+        <div className="flex items-center gap-2">
+          <div className={`p-1.5 rounded-lg transition-colors ${isCollapsed ? 'bg-gray-100' : 'bg-blue-50'}`}>
+            <ScanSearch className={`w-4 h-4 ${isCollapsed ? 'text-gray-400' : 'text-[#0077B5]'}`} />
+          </div>
+          <h3 className={`text-sm font-bold uppercase tracking-wide transition-colors ${isCollapsed ? 'text-gray-400' : 'text-gray-800'}`}>
+            Retrieval Inspector
+          </h3>
+          <span className="text-[10px] text-gray-400 font-mono font-bold tracking-tight">
+            {overrides.pinned.length} pinned, {overrides.excluded.length} excluded
+          </span>
+        </div>
+        <div className="text-gray-400 group-hover:text-[#0077B5] transition-all ml-4">
+          {isCollapsed ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </div>
+      </div>
+
+      {!isCollapsed && (
+        <div className="mt-4 space-y-3 animate-in slide-in-from-top-1 duration-200">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-[10px] text-gray-400 font-medium truncate">
+              {query ? <>Query: <span className="text-gray-600 font-bold">{query}</span></> : 'Add key points or context to search with.'}
+            </p>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {overrideCount > 0 && (
+                <button
+                  onClick={() => onOverridesChange({ pinned: [], excluded: [] })}
+                  className="text-[10px] font-bold text-gray-400 hover:text-gray-600 uppercase tracking-wider flex items-center gap-1 transition-colors px-2 py-1 rounded hover:bg-gray-100"
+                >
+                  <Undo2 className="w-3 h-3" /> Clear
+                </button>
+              )}
+              {isSearching && (
+                <button
+                  id="inspector-cancel"
+                  onClick={() => searchController.current?.abort()}
+                  className="text-[10px] font-bold text-gray-400 hover:text-gray-600 uppercase tracking-wider flex items-center gap-1 transition-colors px-2 py-1 rounded hover:bg-gray-100"
+                >
+                  <X className="w-3 h-3" /> Cancel
+                </button>
+              )}
+              <button
+                id="inspector-run"
+                onClick={runSearch}
+                disabled={isSearching || !query || ragDocs.length === 0}
+                className="bg-[#0077B5] text-white px-3 py-1.5 rounded-lg text-[10px] hover:bg-[#005a8a] transition-all flex items-center gap-2 font-bold shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {isSearching ? <Loader2 className="w-3 h-3 animate-spin" /> : <ScanSearch className="w-3 h-3" />}
+                Run Search
+              </button>
+            </div>
+          </div>
+
+          {ragDocs.length === 0 && (
+            <p className="text-[10px] text-amber-700 font-medium">No active documents in Smart Search mode.</p>
+          )}
+          {!isVendorReady && ragDocs.length > 0 && (
+            <p className="text-[10px] text-amber-700 font-medium">No {vendor.toUpperCase()} key: only the keyword side runs.</p>
+          )}
+          {searchError && <p id="inspector-error" className="text-[10px] text-red-600 font-medium">{searchError}</p>}
+          {vectorSearchSkipped && (
+            <p id="inspector-keyword-only" className="text-[10px] text-amber-700 font-medium" title={vectorSearchSkipped}>
+              The query couldn't be embedded, so these are keyword matches only.
+            </p>
+          )}
+
+          {results && (
+            <ol className="space-y-2 max-h-[320px] overflow-y-auto pr-1">
+              {results.length === 0 && (
+                <li className="text-[10px] text-gray-400 italic">Nothing matched this query.</li>
+              )}
+              {results.map((chunk, i) => (
+                <li
+                  key={chunk.id}
+                  data-chunk-id={chunk.id}
+                  className={`inspector-chunk p-3 rounded-lg border text-xs ${chunk.pinned ? 'border-[#0077B5]/40 bg-blue-50/40' : 'border-gray-100 bg-white'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-mono font-bold text-[#0077B5]">[{i + 1}]</span>
+                      <span className="inspector-source truncate font-bold text-gray-700">{formatCitationSource(labels[i])}</span>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => togglePin(memberIds(chunk))}
+                        className={`inspector-pin p-1 rounded transition-colors ${chunk.pinned ? 'text-[#0077B5] hover:bg-blue-100' : 'text-gray-300 hover:text-[#0077B5] hover:bg-gray-100'}`}
+                        title={chunk.pinned ? 'Unpin' : 'Always send this chunk'}
+                      >
+                        {chunk.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                      </button>
+                      <button
+                        onClick={() => toggleExclude(memberIds(chunk))}
+                        className="inspector-exclude p-1 rounded text-gray-300 hover:text-red-500 hover:bg-red-50 transition-colors"
+                        title="Never send this chunk"
+                      >
+                        <Ban className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="inspector-scores flex gap-3 mt-1 text-[10px] font-mono text-gray-400">
+                    {chunk.pinned && <span className="text-[#0077B5] font-bold">PINNED</span>}
+                    {chunk.mergedIds && <span className="inspector-merged" title={chunk.mergedIds.join(', ')}>{chunk.mergedIds.length} merged</span>}
+                    <span title="Fused reciprocal rank score">fused {formatScore(chunk.score * 1000, 1)}</span>
+                    <span title="Cosine similarity">semantic {formatScore(chunk.vectorScore, 3)}</span>
+                    <span title="BM25 score">keyword {formatScore(chunk.keywordScore, 2)}</span>
+                  </div>
+                  <p className="mt-1.5 text-gray-600 leading-relaxed line-clamp-3">{chunk.text}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {overrides.excluded.length > 0 && (
+            <div id="inspector-excluded">
+              <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1.5">Excluded</h4>
+              <div className="space-y-1">
+                {overrides.excluded.map(id => {
+                  const chunk = seen.get(id);
+                  return (
+                    <div key={id} data-chunk-id={id} className="inspector-excluded-chunk flex items-center justify-between gap-2 text-[11px] text-gray-400">
+                      <span className="truncate line-through">{chunk ? chunk.text : id}</span>
+                      <button
+                        onClick={() => toggleExclude([id])}
+                        className="inspector-restore text-[10px] font-bold uppercase tracking-wider hover:text-gray-600 flex-shrink-0"
+                      >
+                        Restore
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
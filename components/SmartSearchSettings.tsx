@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Search, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { RetrievalSettings } from '../types';
+import { DEFAULT_RETRIEVAL } from '../services/ragService';
+
+interface SmartSearchSettingsProps {
+  settings: RetrievalSettings;
+  onChange: (settings: RetrievalSettings) => void;
+}
+
+const FIELDS: { key: keyof RetrievalSettings; label: string; hint: string; min: number; max: number; step: number }[] = [
+  { key: 'limit', label: 'Chunks Retrieved', hint: 'Knowledge chunks added to each prompt.', min: 1, max: 50, step: 1 },
+  { key: 'perDocumentLimit', label: 'Max Per Document', hint: 'Stops one large document from taking every slot.', min: 1, max: 50, step: 1 },
+  { key: 'vectorWeight', label: 'Semantic Weight', hint: 'Embedding similarity. 0 turns it off.', min: 0, max: 2, step: 0.1 },
+  { key: 'keywordWeight', label: 'Keyword Weight', hint: 'Exact terms, names and figures (BM25, works offline). 0 turns it off.', min: 0, max: 2, step: 0.1 },
+  { key: 'diversity', label: 'Diversity', hint: 'Skips near-copies of chunks already picked. 0 ranks by relevance only.', min: 0, max: 1, step: 0.1 }
+];
+
+const describeMode = ({ vectorWeight, keywordWeight }: RetrievalSettings): string => {
+  if (vectorWeight > 0 && keywordWeight > 0) return 'hybrid';
+  if (keywordWeight > 0) return 'keyword only';
+  return vectorWeight > 0 ? 'semantic only' : 'off';
+};
+
+export const SmartSearchSettings: React.FC<SmartSearchSettingsProps> = ({ settings, onChange }) => {
+  const [isCollapsed, setIsCollapsed] = useState(true);
+
+  const updateSetting = (key: keyof RetrievalSettings, raw: string) => {
+    const field = FIELDS.find(f => f.key === key)!;
+    const value = field.step === 1 ? Math.round(Number(raw)) : Number(raw);
+    if (raw === '' || isNaN(value)) return;
+    onChange({ ...settings, [key]: Math.min(field.max, Math.max(field.min, value)) });
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm flex flex-col transition-all duration-300">
+      <div
+        className="flex items-center justify-between cursor-pointer group"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+      >
+        <div className="flex items-center gap-2">
+          <div className={`p-1.5 rounded-lg transition-colors ${isCollapsed ? 'bg-gray-100' : 'bg-blue-50'}`}>
+            <Search className={`w-4 h-4 ${isCollapsed ? 'text-gray-400' : 'text-[#0077B5]'}`} />
+          </div>
+          <h3 className={`text-sm font-bold uppercase tracking-wide transition-colors ${isCollapsed ? 'text-gray-400' : 'text-gray-800'}`}>
+            Smart Search
+          </h3>
+          <span className="text-[10px] text-gray-400 font-mono font-bold tracking-tight">
+            {describeMode(settings)}, top {settings.limit}, ≤{settings.perDocumentLimit}/doc
+          </span>
+        </div>
+        <div className="text-gray-400 group-hover:text-[#0077B5] transition-all ml-4">
+          {isCollapsed ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </div>
+      </div>
+
+      {!isCollapsed && (
+        <div className="mt-4 space-y-4 animate-in slide-in-from-top-1 duration-200">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {FIELDS.map(field => (
+              <label key={field.key} className="flex flex-col gap-1.5 p-3 rounded-lg border border-gray-200">
+                <span className="text-[10px] font-bold text-gray-600 uppercase tracking-widest">{field.label}</span>
+                <input
+                  id={`retrieval-${field.key}`}
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={settings[field.key]}
+                  onChange={(e) => updateSetting(field.key, e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-md text-sm font-mono outline-none focus:ring-2 focus:ring-[#0077B5]/20 focus:border-[#0077B5]"
+                />
+                <span className="text-[10px] text-gray-400 font-medium">{field.hint}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] text-gray-400 font-medium">Only active documents in Smart Search mode are searched.</p>
+            <button
+              onClick={() => onChange(DEFAULT_RETRIEVAL)}
+              className="text-[10px] font-bold text-gray-400 hover:text-gray-600 uppercase tracking-wider flex items-center gap-1 transition-colors px-2 py-1 rounded hover:bg-gray-100"
+            >
+              <RotateCcw className="w-3 h-3" /> Defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
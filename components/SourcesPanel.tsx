@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ExternalLink, FileText, Search } from 'lucide-react';
+import { KnowledgeCitation } from '../types';
+import { formatPageRange, getCitedMarkers } from '../services/citations';
+
+interface SourcesPanelProps {
+  sources: { title: string; uri: string }[];
+  citations: KnowledgeCitation[];
+  queries: string[]; // What Smart Search searched for
+  vectorSearchSkipped?: string; // Why the semantic side didn't run, when Smart Search fell back to keywords
+  draft: string; // To tell which knowledge chunks the draft actually cites
+}
+
+export const SourcesPanel: React.FC<SourcesPanelProps> = ({ sources, citations, queries, vectorSearchSkipped, draft }) => {
+  const [openMarker, setOpenMarker] = useState<number | null>(null);
+  const cited = useMemo(() => getCitedMarkers(draft), [draft]);
+
+  // Cited chunks first, each group in marker order
+  const ordered = useMemo(
+    () => [...citations].sort((a, b) => Number(cited.has(b.marker)) - Number(cited.has(a.marker)) || a.marker - b.marker),
+    [citations, cited]
+  );
+
+  const toggleCitation = (marker: number) => {
+    const next = openMarker === marker ? null : marker;
+    setOpenMarker(next);
+    if (next !== null) {
+      // Wait for the chunk text to render before bringing it into view
+      requestAnimationFrame(() => document.getElementById(`citation-chunk-${next}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' }));
+    }
+  };
+
+  if (sources.length === 0 && citations.length === 0 && queries.length === 0) return null;
+
+  return (
+    <div id="sources-panel" className="p-6 pt-2 border-t border-gray-100 bg-white/50 overflow-y-auto max-h-[260px] space-y-4">
+      {queries.length > 0 && (
+        <div id="retrieval-queries">
+          <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">Searched For</h4>
+          <ul className="space-y-1">
+            {queries.map((query, i) => (
+              <li key={i} className="retrieval-query flex items-start gap-2 text-[11px] text-gray-500">
+                <Search className="w-3 h-3 mt-0.5 text-gray-300 flex-shrink-0" />
+                <span className="line-clamp-2">{query}</span>
+              </li>
+            ))}
+          </ul>
+          {vectorSearchSkipped && (
+            <p id="vector-search-skipped" className="mt-2 flex items-start gap-2 text-[11px] text-amber-700" title={vectorSearchSkipped}>
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span>The queries couldn't be embedded, so only keyword matches were searched.</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {citations.length > 0 && (
+        <div id="knowledge-citations">
+          <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3">
+            Knowledge Base Citations <span className="text-gray-300">({cited.size} of {citations.length} cited)</span>
+          </h4>
+          <div className="grid grid-cols-1 gap-2">
+            {ordered.map(citation => {
+              const isCited = cited.has(citation.marker);
+              const pages = formatPageRange(citation);
+              return (
+                <div key={citation.chunkId} className={`knowledge-citation ${isCited ? '' : 'opacity-50'}`} data-marker={citation.marker}>
+                  <button
+                    onClick={() => toggleCitation(citation.marker)}
+                    className="w-full flex items-center gap-2 px-3 py-2 bg-white border border-gray-100 rounded-lg text-xs font-semibold text-gray-700 hover:bg-blue-50 transition-all shadow-sm text-left"
+                    title={isCited ? 'Show the cited passage' : 'Sent to the model but not cited in the draft'}
+                  >
+                    <span className="font-mono font-bold text-[#0077B5] flex-shrink-0">[{citation.marker}]</span>
+                    <FileText className="w-3 h-3 text-gray-400 flex-shrink-0" />
+                    <span className="truncate">{citation.documentName}</span>
+                    {pages && <span className="citation-pages text-[10px] text-gray-400 font-mono flex-shrink-0">{pages}</span>}
+                    {citation.headings && citation.headings.length > 0 && (
+                      <span className="truncate text-[10px] text-gray-400">{citation.headings.join(' > ')}</span>
+                    )}
+                  </button>
+                  {openMarker === citation.marker && (
+                    <blockquote
+                      id={`citation-chunk-${citation.marker}`}
+                      className="mt-1 ml-3 pl-3 border-l-2 border-[#0077B5]/30 text-xs text-gray-600 leading-relaxed whitespace-pre-wrap animate-in fade-in duration-200"
+                    >
+                      {citation.text}
+                    </blockquote>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {sources.length > 0 && (
+        <div>
+          <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3">Grounding Sources</h4>
+          <div className="grid grid-cols-1 gap-2">
+            {sources.map((s, i) => (
+              <a
+                key={i}
+                href={s.uri}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-100 rounded-lg text-xs font-semibold text-[#0077B5] hover:bg-blue-50 transition-all shadow-sm"
+              >
+                <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">{s.title}</span>
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
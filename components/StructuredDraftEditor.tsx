@@ -0,0 +1,115 @@
+import React from 'react';
+import { ListChecks, Hash } from 'lucide-react';
+import { StructuredPost } from '../types';
+import { StructuredDraft, StructuredSelection } from '../services/structuredOutput';
+
+interface StructuredDraftEditorProps {
+  draft: StructuredDraft;
+  onChange: (draft: StructuredDraft) => void;
+}
+
+const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-1.5">{children}</h4>
+);
+
+const inputClass = 'w-full px-2 py-1.5 border border-gray-200 rounded text-xs outline-none focus:border-[#0077B5] bg-white';
+
+export const StructuredDraftEditor: React.FC<StructuredDraftEditorProps> = ({ draft, onChange }) => {
+  const { post, selection } = draft;
+
+  const updatePost = (changes: Partial<StructuredPost>) => onChange({ post: { ...post, ...changes }, selection });
+  const updateSelection = (changes: Partial<StructuredSelection>) => onChange({ post, selection: { ...selection, ...changes } });
+
+  const toggleHashtag = (tag: string) => {
+    updateSelection({
+      // Keep the model's order regardless of click order
+      hashtags: selection.hashtags.includes(tag)
+        ? selection.hashtags.filter(t => t !== tag)
+        : post.hashtags.filter(t => t === tag || selection.hashtags.includes(t))
+    });
+  };
+
+  return (
+    <div id="structured-editor" className="mx-6 mt-6 mb-2 p-4 rounded-xl border border-purple-100 bg-purple-50/30 space-y-4">
+      <div className="flex items-center gap-2">
+        <ListChecks className="w-4 h-4 text-purple-500" />
+        <h3 className="text-xs font-bold text-gray-800 uppercase tracking-wide">Post Sections</h3>
+        <span className="text-[10px] text-gray-400 font-bold">Editing a section rebuilds the post below</span>
+      </div>
+
+      {post.summary && (
+        <p id="structured-summary" className="text-xs text-gray-500 italic">{post.summary}</p>
+      )}
+
+      <div>
+        <SectionLabel>Hook</SectionLabel>
+        <div className="space-y-1.5">
+          {post.hooks.map((hook, i) => (
+            <label key={i} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="structured-hook"
+                checked={selection.hookIndex === i}
+                onChange={() => updateSelection({ hookIndex: i })}
+                className="accent-purple-600"
+              />
+              <input
+                value={hook}
+                onChange={(e) => updatePost({ hooks: post.hooks.map((h, j) => j === i ? e.target.value : h) })}
+                className={`structured-hook ${inputClass}`}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <SectionLabel>Body</SectionLabel>
+        <textarea
+          id="structured-body"
+          value={post.body}
+          onChange={(e) => updatePost({ body: e.target.value })}
+          rows={6}
+          className={`${inputClass} resize-y leading-relaxed`}
+        />
+      </div>
+
+      <div>
+        <SectionLabel>Call to Action</SectionLabel>
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="structured-cta-toggle"
+            checked={selection.includeCallToAction}
+            onChange={(e) => updateSelection({ includeCallToAction: e.target.checked })}
+            className="accent-purple-600"
+            title="Include in the post"
+          />
+          <input
+            id="structured-cta"
+            value={post.callToAction}
+            onChange={(e) => updatePost({ callToAction: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {post.hashtags.length > 0 && (
+        <div>
+          <SectionLabel>Hashtags</SectionLabel>
+          <div className="flex flex-wrap gap-1.5">
+            {post.hashtags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => toggleHashtag(tag)}
+                className={`structured-hashtag flex items-center gap-0.5 text-[11px] font-bold px-2 py-1 rounded-full border transition-all ${selection.hashtags.includes(tag) ? 'bg-[#0077B5] text-white border-[#0077B5]' : 'bg-white text-gray-400 border-gray-200 line-through'}`}
+              >
+                <Hash className="w-3 h-3" />{tag.replace(/^#/, '')}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
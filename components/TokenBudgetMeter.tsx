@@ -0,0 +1,68 @@
+import React from 'react';
+import { Gauge, AlertTriangle } from 'lucide-react';
+import { BudgetReport, BudgetBreakdown } from '../services/tokenBudget';
+
+interface TokenBudgetMeterProps {
+  report: BudgetReport;
+}
+
+const SEGMENTS: { key: keyof BudgetBreakdown; label: string; color: string }[] = [
+  { key: 'system', label: 'System', color: 'bg-gray-400' },
+  { key: 'instructions', label: 'Instructions', color: 'bg-[#0077B5]' },
+  { key: 'draft', label: 'Draft', color: 'bg-purple-500' },
+  { key: 'chunks', label: 'Chunks', color: 'bg-teal-500' },
+  { key: 'documents', label: 'Documents', color: 'bg-amber-500' }
+];
+
+const formatTokens = (tokens: number): string => {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+};
+
+export const TokenBudgetMeter: React.FC<TokenBudgetMeterProps> = ({ report }) => {
+  const usable = report.contextWindow;
+  const percent = (tokens: number) => `${Math.min(100, (tokens / usable) * 100)}%`;
+
+  return (
+    <div id="token-budget" className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <div className={`p-1.5 rounded-lg ${report.exceeded ? 'bg-amber-50' : 'bg-blue-50'}`}>
+            <Gauge className={`w-4 h-4 ${report.exceeded ? 'text-amber-600' : 'text-[#0077B5]'}`} />
+          </div>
+          <h3 className="text-sm font-bold uppercase tracking-wide text-gray-800">Token Budget</h3>
+        </div>
+        <span className="text-[10px] text-gray-400 font-mono font-bold tracking-tight">
+          ~{formatTokens(report.requestedTotal)} + {formatTokens(report.reservedOutput)} reply / {formatTokens(report.contextWindow)}
+        </span>
+      </div>
+
+      <div className="flex h-2 w-full rounded-full bg-gray-100 overflow-hidden">
+        {SEGMENTS.map(segment => (
+          <div key={segment.key} className={segment.color} style={{ width: percent(report.breakdown[segment.key]) }} />
+        ))}
+        <div className="bg-gray-200" style={{ width: percent(report.reservedOutput) }} title="Reserved for the reply" />
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {SEGMENTS.map(segment => (
+          <span key={segment.key} className="flex items-center gap-1.5 text-[10px] font-bold text-gray-500">
+            <span className={`w-2 h-2 rounded-full ${segment.color}`} />
+            {segment.label} {formatTokens(report.breakdown[segment.key])}
+          </span>
+        ))}
+      </div>
+
+      {report.exceeded && (
+        <div className="flex items-start gap-2 text-[10px] leading-relaxed text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <p>
+            Over the model's context window. Documents lowest in the Knowledge Base are trimmed first.
+            {report.condensed.length > 0 && <span className="block font-bold">Condensed: {report.condensed.join(', ')}</span>}
+            {report.dropped.length > 0 && <span className="block font-bold">Dropped: {report.dropped.join(', ')}</span>}
+            {report.droppedChunks > 0 && <span className="block font-bold">Chunks dropped: {report.droppedChunks}</span>}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Wallet, Trash2, Plus } from 'lucide-react';
+import { UsageEntry, PriceRow, usageService, getEntryCost, findPrice } from '../services/usageService';
+
+interface UsageDashboardProps {
+  prices: PriceRow[];
+  onPricesChange: (prices: PriceRow[]) => void;
+  onClose: () => void;
+}
+
+const formatCost = (usd: number): string => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+const formatTokens = (tokens: number): string => tokens.toLocaleString();
+const dayKey = (timestamp: number): string => new Date(timestamp).toLocaleDateString();
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ prices, onPricesChange, onClose }) => {
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+
+  const now = new Date();
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+  useEffect(() => {
+    usageService.getEntries(startOfMonth).then(setEntries).catch(err => {
+      console.error("Failed to load usage ledger:", err);
+    });
+  }, [startOfMonth]);
+
+  const summary = useMemo(() => {
+    const total = (list: UsageEntry[]) => ({
+      cost: list.reduce((sum, e) => sum + getEntryCost(e, prices), 0),
+      tokens: list.reduce((sum, e) => sum + e.inputTokens + e.outputTokens + e.embeddingTokens, 0)
+    });
+
+    const byDay = new Map<string, UsageEntry[]>();
+    const byModel = new Map<string, UsageEntry[]>();
+    entries.forEach(entry => {
+      byDay.set(dayKey(entry.timestamp), [...(byDay.get(dayKey(entry.timestamp)) || []), entry]);
+      const modelKey = `${entry.vendor} · ${entry.model.replace('models/', '')}`;
+      byModel.set(modelKey, [...(byModel.get(modelKey) || []), entry]);
+    });
+
+    return {
+      today: total(entries.filter(e => e.timestamp >= startOfDay)),
+      month: total(entries),
+      days: Array.from(byDay.entries()).map(([day, list]) => ({ day, ...total(list) })).reverse(),
+      models: Array.from(byModel.entries()).map(([model, list]) => ({
+        model,
+        unpriced: !findPrice(prices, list[0].model),
+        input: list.reduce((sum, e) => sum + e.inputTokens, 0),
+        output: list.reduce((sum, e) => sum + e.outputTokens, 0),
+        embedding: list.reduce((sum, e) => sum + e.embeddingTokens, 0),
+        ...total(list)
+      }))
+    };
+  }, [entries, prices, startOfDay]);
+
+  const updatePrice = (index: number, field: keyof PriceRow, value: string) => {
+    onPricesChange(prices.map((row, i) => i === index
+      ? { ...row, [field]: field === 'model' ? value : Number(value) }
+      : row
+    ));
+  };
+
+  const handleClear = async () => {
+    if (!confirm("Delete the whole usage history?")) return;
+    await usageService.clear();
+    setEntries([]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/40 backdrop-blur-sm z-[60] flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        id="usage-dashboard"
+        className="bg-white rounded-2xl shadow-2xl border border-gray-200 w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Wallet className="w-4 h-4 text-[#0077B5]" />
+            <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wide">Usage & Cost</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1.5 hover:bg-gray-100 rounded-md" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            {[{ label: 'Today', data: summary.today, id: 'usage-today' }, { label: 'This Month', data: summary.month, id: 'usage-month' }].map(card => (
+              <div key={card.label} id={card.id} className="p-4 rounded-xl border border-gray-200 bg-gray-50/50">
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{card.label}</p>
+                <p className="text-2xl font-black text-gray-900 mt-1">{formatCost(card.data.cost)}</p>
+                <p className="text-[10px] text-gray-400 font-mono font-bold">{formatTokens(card.data.tokens)} tokens</p>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">By Model (this month)</h4>
+            {summary.models.length === 0 ? (
+              <p className="text-xs text-gray-400 italic">No usage recorded yet.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-[10px] text-gray-400 uppercase tracking-wider">
+                    <th className="py-1">Model</th>
+                    <th className="py-1 text-right">Input</th>
+                    <th className="py-1 text-right">Output</th>
+                    <th className="py-1 text-right">Embedding</th>
+                    <th className="py-1 text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.models.map(row => (
+                    <tr key={row.model} className="border-t border-gray-100">
+                      <td className="py-1.5 font-semibold text-gray-700">
+                        {row.model}
+                        {row.unpriced && <span className="ml-2 text-[9px] font-black px-1.5 py-0.5 rounded uppercase bg-amber-100 text-amber-700">No price</span>}
+                      </td>
+                      <td className="py-1.5 text-right font-mono">{formatTokens(row.input)}</td>
+                      <td className="py-1.5 text-right font-mono">{formatTokens(row.output)}</td>
+                      <td className="py-1.5 text-right font-mono">{formatTokens(row.embedding)}</td>
+                      <td className="py-1.5 text-right font-mono font-bold">{formatCost(row.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {summary.days.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">Daily</h4>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {summary.days.map(day => (
+                  <div key={day.day} className="flex justify-between px-3 py-2 rounded-lg border border-gray-100 text-xs">
+                    <span className="text-gray-500 font-semibold">{day.day}</span>
+                    <span className="font-mono font-bold text-gray-800">{formatCost(day.cost)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Price Table (USD per 1M tokens)</h4>
+              <button
+                onClick={() => onPricesChange([...prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+                className="text-[10px] font-bold text-[#0077B5] uppercase tracking-wider flex items-center gap-1 px-2 py-1 rounded hover:bg-blue-50"
+              >
+                <Plus className="w-3 h-3" /> Add
+              </button>
+            </div>
+            <div className="space-y-1.5">
+              {prices.map((row, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    value={row.model}
+                    onChange={(e) => updatePrice(i, 'model', e.target.value)}
+                    placeholder="Model name contains..."
+                    className="flex-1 px-2 py-1 border border-gray-200 rounded text-xs font-mono outline-none focus:border-[#0077B5]"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={row.inputPerMillion}
+                    onChange={(e) => updatePrice(i, 'inputPerMillion', e.target.value)}
+                    title="Input"
+                    className="w-20 px-2 py-1 border border-gray-200 rounded text-xs font-mono outline-none focus:border-[#0077B5]"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={row.outputPerMillion}
+                    onChange={(e) => updatePrice(i, 'outputPerMillion', e.target.value)}
+                    title="Output"
+                    className="w-20 px-2 py-1 border border-gray-200 rounded text-xs font-mono outline-none focus:border-[#0077B5]"
+                  />
+                  <button
+                    onClick={() => onPricesChange(prices.filter((_, j) => j !== i))}
+                    className="text-gray-300 hover:text-red-500 p-1 rounded hover:bg-red-50"
+                    title="Remove"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleClear}
+            className="flex items-center gap-1.5 text-xs font-bold text-gray-400 hover:text-red-500 transition-colors uppercase tracking-wider px-3 py-2 rounded-lg hover:bg-red-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" /> Clear History
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { X, Columns3, ArrowUpCircle, Merge } from 'lucide-react';
+import { Button } from './Button';
+import { DraftVariant } from '../types';
+
+interface VariantCompareProps {
+  variants: DraftVariant[];
+  onPromote: (variant: DraftVariant) => void;
+  onClose: () => void;
+}
+
+const splitParagraphs = (text: string): string[] => text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+const getHook = (text: string): string => text.split('\n').find(line => line.trim())?.trim() || '';
+
+export const VariantCompare: React.FC<VariantCompareProps> = ({ variants, onPromote, onClose }) => {
+  // Picked paragraphs in click order, which is also the order they are merged in
+  const [picked, setPicked] = useState<{ variantId: string; index: number }[]>([]);
+
+  const togglePick = (variantId: string, index: number) => {
+    setPicked(prev => prev.some(p => p.variantId === variantId && p.index === index)
+      ? prev.filter(p => !(p.variantId === variantId && p.index === index))
+      : [...prev, { variantId, index }]
+    );
+  };
+
+  const handleMerge = () => {
+    const text = picked
+      .map(p => splitParagraphs(variants.find(v => v.id === p.variantId)?.text || '')[p.index])
+      .filter(Boolean)
+      .join('\n\n');
+    // Grounding sources of every variant that contributed a paragraph
+    const contributors = variants.filter(v => picked.some(p => p.variantId === v.id));
+    const sources = contributors.flatMap(v => v.sources).filter((s, i, all) => all.findIndex(o => o.uri === s.uri) === i);
+    // Variants share one retrieval, so a marker means the same chunk in each of them
+    const citations = contributors.flatMap(v => v.citations || []).filter((c, i, all) => all.findIndex(o => o.marker === c.marker) === i);
+    onPromote({
+      id: 'merged',
+      text,
+      sources,
+      citations,
+      retrievalQueries: contributors[0]?.retrievalQueries,
+      vectorSearchSkipped: contributors[0]?.vectorSearchSkipped
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/40 backdrop-blur-sm z-[60] flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        id="variant-compare"
+        className="bg-white rounded-2xl shadow-2xl border border-gray-200 w-full max-w-7xl max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Columns3 className="w-4 h-4 text-purple-500" />
+            <h3 className="text-sm font-bold text-gray-800 uppercase tracking-wide">Compare Variants</h3>
+            <span className="text-[10px] text-gray-400 font-bold">Pick one, or click paragraphs to merge them</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={handleMerge}
+              disabled={picked.length === 0}
+              className="text-xs h-8 px-3"
+              icon={<Merge className="w-3.5 h-3.5" />}
+            >
+              Merge Selected ({picked.length})
+            </Button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-1.5 hover:bg-gray-100 rounded-md" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-auto grid gap-4" style={{ gridTemplateColumns: `repeat(${variants.length}, minmax(260px, 1fr))` }}>
+          {variants.map((variant, v) => (
+            <div key={variant.id} data-variant={v + 1} className="variant-card flex flex-col rounded-xl border border-gray-200 bg-gray-50/50 overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-100 bg-white">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] font-black text-purple-600 uppercase tracking-widest">Variant {v + 1}</span>
+                  <span className="variant-word-count text-[10px] text-gray-400 font-mono font-bold">{countWords(variant.text)} words</span>
+                </div>
+                <p className="variant-hook text-xs font-bold text-gray-900 mt-1 line-clamp-2" title="Hook preview">{getHook(variant.text)}</p>
+              </div>
+
+              <div className="flex-1 p-3 space-y-2 overflow-y-auto">
+                {splitParagraphs(variant.text).map((paragraph, i) => {
+                  const order = picked.findIndex(p => p.variantId === variant.id && p.index === i);
+                  return (
+                    <button
+                      key={i}
+                      onClick={() => togglePick(variant.id, i)}
+                      className={`w-full text-left text-xs leading-relaxed whitespace-pre-wrap p-2 rounded-lg border transition-all ${order >= 0 ? 'border-purple-400 bg-purple-50 text-gray-900' : 'border-transparent text-gray-600 hover:bg-white hover:border-gray-200'}`}
+                    >
+                      {order >= 0 && <span className="text-[9px] font-black text-purple-600 mr-1">#{order + 1}</span>}
+                      {paragraph}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="p-3 border-t border-gray-100 bg-white">
+                <Button
+                  onClick={() => onPromote(variant)}
+                  className="w-full text-xs h-8"
+                  icon={<ArrowUpCircle className="w-3.5 h-3.5" />}
+                >
+                  Use This Draft
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { MessageCreateParamsBase } from "@anthropic-ai/sdk/resources/messages";
+import { UploadedDocument, GenerationConfig, ModelInfo, Vendor, GenerationParamKey, TokenUsage } from "../types";
+import { LLMProvider, GeneratedResponse, Embeddings, KnowledgeEmbedder } from "./llmProvider";
+import { getSystemInstruction, getUserPrompt } from "./promptUtils";
+import { formatKnowledgeChunks } from "./citations";
+import { PreparedKnowledge, describeKnowledge, prepareKnowledge } from "./knowledge";
+import { ProviderError, ProviderErrorKind } from "./providerErrors";
+import { toStructuredResponse } from "./structuredOutput";
+import { addUsage } from "./usageService";
+
+const MAX_OUTPUT_TOKENS = 4096;
+const MIN_THINKING_BUDGET = 1024;
+
+export class AnthropicProvider implements LLMProvider {
+    // Anthropic has no embeddings API: Smart Search goes through another vendor's index
+    readonly supportsEmbeddings = false;
+
+    constructor(private resolveProvider: (vendor: Vendor) => LLMProvider) { }
+
+    async fetchModels(apiKey: string): Promise<ModelInfo[]> {
+        const anthropic = new Anthropic({ apiKey, dangerouslyAllowBrowser: true, maxRetries: 0 });
+        const models: ModelInfo[] = [];
+
+        try {
+            for await (const model of anthropic.models.list()) {
+                models.push({
+                    name: model.id,
+                    displayName: model.display_name || model.id,
+                    description: `Anthropic model ${model.id}`
+                });
+            }
+            return models;
+        } catch (error) {
+            console.error("Error listing Anthropic models:", error);
+            throw error;
+        }
+    }
+
+    async generateContent(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        signal?: AbortSignal
+    ): Promise<GeneratedResponse> {
+        const anthropic = new Anthropic({ apiKey, dangerouslyAllowBrowser: true, maxRetries: 0 });
+        const { userPrompt, knowledge } = await this.buildUserPrompt(apiKey, config, documents, signal);
+
+        const response = await anthropic.messages.create({
+            ...this.buildParams(config, userPrompt),
+            stream: false,
+        }, { signal });
+
+        if (response.stop_reason === "refusal") {
+            throw new ProviderError(ProviderErrorKind.SAFETY, "Claude declined to answer this request.", Vendor.ANTHROPIC);
+        }
+
+        const text = response.content
+            .map(block => block.type === "text" ? block.text : "")
+            .join("") || "No response generated.";
+        const usage: TokenUsage = {
+            inputTokens: response.usage.input_tokens,
+            outputTokens: response.usage.output_tokens,
+            embeddingTokens: 0
+        };
+
+        const result = { text, sources: [], ...describeKnowledge(knowledge), usage: addUsage(usage, knowledge.usage) };
+        // No schema mode here: the prompt asks for the JSON and the parser tolerates stray prose
+        return config.structured ? toStructuredResponse(result) : result;
+    }
+
+    async generateContentStream(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        onChunk: (text: string) => void,
+        signal?: AbortSignal
+    ): Promise<GeneratedResponse> {
+        const anthropic = new Anthropic({ apiKey, dangerouslyAllowBrowser: true, maxRetries: 0 });
+        const { userPrompt, knowledge } = await this.buildUserPrompt(apiKey, config, documents, signal);
+
+        const stream = await anthropic.messages.create({
+            ...this.buildParams(config, userPrompt),
+            stream: true,
+        }, { signal });
+
+        let text = "";
+        const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, embeddingTokens: 0 };
+        for await (const event of stream) {
+            if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+                text += event.delta.text;
+                onChunk(event.delta.text);
+            } else if (event.type === "message_start") {
+                usage.inputTokens = event.message.usage.input_tokens;
+            } else if (event.type === "message_delta") {
+                // Output usage is cumulative on each delta
+                usage.outputTokens = event.usage.output_tokens;
+                if (event.delta.stop_reason === "refusal" && !text) {
+                    throw new ProviderError(ProviderErrorKind.SAFETY, "Claude declined to answer this request.", Vendor.ANTHROPIC);
+                }
+            }
+        }
+
+        const result = { text: text || "No response generated.", sources: [], ...describeKnowledge(knowledge), usage: addUsage(usage, knowledge.usage) };
+        return config.structured ? toStructuredResponse(result) : result;
+    }
+
+    getSupportedParams(model: string): GenerationParamKey[] {
+        // Extended thinking arrived with Claude 3.7 and is available on every Claude 4 model
+        const supportsThinking = /claude-(3-7|(opus|sonnet|haiku)-4|4)/.test(model);
+        return supportsThinking
+            ? ['temperature', 'topP', 'maxOutputTokens', 'thinkingBudget']
+            : ['temperature', 'topP', 'maxOutputTokens'];
+    }
+
+    getContextWindow(): number {
+        return 200000; // Every current Claude model
+    }
+
+    private buildParams(config: GenerationConfig, userPrompt: string): MessageCreateParamsBase {
+        const supported = this.getSupportedParams(config.model);
+        const thinkingBudget = supported.includes('thinkingBudget') && config.thinkingBudget
+            ? Math.max(MIN_THINKING_BUDGET, config.thinkingBudget)
+            : undefined;
+        // The output limit must leave room for the thinking budget
+        const maxTokens = Math.max(config.maxOutputTokens ?? MAX_OUTPUT_TOKENS, (thinkingBudget ?? 0) + 1024);
+
+        const params: MessageCreateParamsBase = {
+            model: config.model,
+            max_tokens: maxTokens,
+            system: getSystemInstruction(config.personality, config.styleExamples),
+            messages: [{ role: "user", content: userPrompt }],
+        };
+
+        if (thinkingBudget) {
+            // Thinking is incompatible with custom temperature and top-p
+            params.thinking = { type: "enabled", budget_tokens: thinkingBudget };
+        } else if (config.temperature !== undefined) {
+            // Recent models reject temperature and top_p together, so temperature wins
+            params.temperature = config.temperature;
+        } else if (config.topP !== undefined) {
+            params.top_p = config.topP;
+        }
+
+        return params;
+    }
+
+    private async buildUserPrompt(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        signal?: AbortSignal
+    ): Promise<{ userPrompt: string; knowledge: PreparedKnowledge }> {
+        const knowledge = await prepareKnowledge({ provider: this, apiKey, config, documents, signal });
+
+        let fullUserPrompt = "";
+
+        // Add Context documents
+        knowledge.contextDocs.forEach(doc => {
+            fullUserPrompt += `\n--- DOCUMENT: ${doc.name} ---\n${doc.parsedText || ""}\n`;
+        });
+
+        // Add RAG chunks, numbered so the model can cite them
+        fullUserPrompt += formatKnowledgeChunks(knowledge.citations);
+
+        fullUserPrompt += getUserPrompt(config);
+        return { userPrompt: fullUserPrompt, knowledge };
+    }
+
+    async complete(apiKey: string, model: string, prompt: string, signal?: AbortSignal): Promise<{ text: string; usage: TokenUsage }> {
+        const anthropic = new Anthropic({ apiKey, dangerouslyAllowBrowser: true, maxRetries: 0 });
+        const response = await anthropic.messages.create({
+            model,
+            max_tokens: 1024,
+            messages: [{ role: "user", content: prompt }],
+        }, { signal });
+        return {
+            text: response.content.map(block => block.type === "text" ? block.text : "").join(""),
+            usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens, embeddingTokens: 0 }
+        };
+    }
+
+    getEmbeddingModel(): string {
+        return "";
+    }
+
+    // Queries are embedded with the vendor that indexed the documents; without one, Smart Search is keyword-only
+    getEmbedder(_apiKey: string, config: GenerationConfig): KnowledgeEmbedder {
+        const embeddingVendor = config.embeddingVendor;
+        if (!embeddingVendor) return { vendor: Vendor.ANTHROPIC, model: "" };
+        const provider = this.resolveProvider(embeddingVendor);
+        return {
+            vendor: embeddingVendor,
+            model: provider.getEmbeddingModel(),
+            embed: (texts, signal) => provider.generateEmbeddings(config.embeddingApiKey || "", texts, signal)
+        };
+    }
+
+    async generateEmbeddings(): Promise<Embeddings> {
+        throw new Error("Anthropic does not provide an embeddings API. Pick a Smart Search embedding vendor in the Knowledge Base.");
+    }
+}
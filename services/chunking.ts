@@ -0,0 +1,205 @@
+import { Chunk, ChunkingSettings, ChunkingStrategy } from "../types";
+import { estimateTokens } from "./tokenBudget";
+
+export const DEFAULT_CHUNKING: ChunkingSettings = {
+    strategy: ChunkingStrategy.MARKDOWN,
+    chunkTokens: 250,
+    overlapTokens: 40
+};
+
+export const CHUNKING_STRATEGIES: { id: ChunkingStrategy; name: string }[] = [
+    { id: ChunkingStrategy.MARKDOWN, name: "Headings + paragraphs" },
+    { id: ChunkingStrategy.PARAGRAPH, name: "Paragraphs" },
+    { id: ChunkingStrategy.SENTENCE, name: "Sentences" },
+    { id: ChunkingStrategy.FIXED, name: "Fixed size" }
+];
+
+export const isSameChunking = (a: ChunkingSettings, b: ChunkingSettings): boolean =>
+    a.strategy === b.strategy && a.chunkTokens === b.chunkTokens && a.overlapTokens === b.overlapTokens;
+
+// Separates pages in text parsed from PDFs, so chunks can record which pages they span
+export const PAGE_BREAK = "\f";
+
+interface Unit {
+    text: string;
+    page: number; // 1-based; unpaged text is all page 1
+}
+
+interface Section {
+    headings: string[]; // Breadcrumb from the top-level heading down
+    paragraphs: Unit[];
+}
+
+interface Piece {
+    text: string;
+    pageStart: number;
+    pageEnd: number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Splits text into paragraphs, grouped by the heading path they sit under when `useHeadings`
+ * is set (otherwise headings stay in the text). Page breaks also end a paragraph.
+ */
+const splitSections = (text: string, useHeadings: boolean): Section[] => {
+    const sections: Section[] = [];
+    let path: { level: number; title: string }[] = [];
+    let current: Section = { headings: [], paragraphs: [] };
+    let lines: string[] = [];
+    let page = 1;
+
+    const flushParagraph = () => {
+        const body = lines.join("\n").trim();
+        if (body) current.paragraphs.push({ text: body, page });
+        lines = [];
+    };
+    const flushSection = () => {
+        flushParagraph();
+        if (current.paragraphs.length > 0) sections.push(current);
+    };
+
+    text.split(PAGE_BREAK).forEach((pageText, i) => {
+        flushParagraph();
+        page = i + 1;
+        pageText.split("\n").forEach(line => {
+            const heading = useHeadings ? line.match(HEADING_PATTERN) : null;
+            if (heading) {
+                flushSection();
+                const level = heading[1].length;
+                path = [...path.filter(h => h.level < level), { level, title: heading[2] }];
+                current = { headings: path.map(h => h.title), paragraphs: [] };
+            } else if (!line.trim()) {
+                flushParagraph();
+            } else {
+                lines.push(line);
+            }
+        });
+    });
+    flushSection();
+
+    return sections;
+};
+
+const splitSentences = (text: string): string[] => {
+    return (text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g) || [text]).map(s => s.trim()).filter(Boolean);
+};
+
+// Last resort for a single unit that is bigger than a chunk: cut between words
+const splitWords = (text: string, maxTokens: number): string[] => {
+    const pieces: string[] = [];
+    let current = "";
+    text.split(/\s+/).forEach(word => {
+        const next = current ? `${current} ${word}` : word;
+        if (current && estimateTokens(next) > maxTokens) {
+            pieces.push(current);
+            current = word;
+        } else {
+            current = next;
+        }
+    });
+    if (current) pieces.push(current);
+    return pieces;
+};
+
+// Breaks a unit down (paragraph -> sentences -> words) until every piece fits in a chunk
+const fitUnit = (unit: Unit, maxTokens: number): Unit[] => {
+    if (estimateTokens(unit.text) <= maxTokens) return [unit];
+    const sentences = splitSentences(unit.text);
+    if (sentences.length > 1) return sentences.flatMap(text => fitUnit({ text, page: unit.page }, maxTokens));
+    return splitWords(unit.text, maxTokens).map(text => ({ text, page: unit.page }));
+};
+
+const toPiece = (units: Unit[], separator: string): Piece => ({
+    text: units.map(u => u.text).join(separator),
+    pageStart: units[0].page,
+    pageEnd: units[units.length - 1].page
+});
+
+/**
+ * Greedily packs units into chunks of at most `chunkTokens`. Each new chunk starts with the
+ * trailing units of the previous one, up to `overlapTokens`, so context carries across.
+ */
+const packUnits = (units: Unit[], { chunkTokens, overlapTokens }: ChunkingSettings, separator: string): Piece[] => {
+    const pieces: Piece[] = [];
+    let current: Unit[] = [];
+
+    const tokensOf = (list: Unit[]) => estimateTokens(list.map(u => u.text).join(separator));
+
+    units.flatMap(unit => fitUnit(unit, chunkTokens)).forEach(unit => {
+        if (current.length > 0 && tokensOf([...current, unit]) > chunkTokens) {
+            pieces.push(toPiece(current, separator));
+            const overlap: Unit[] = [];
+            for (let i = current.length - 1; i >= 0; i--) {
+                if (tokensOf([current[i], ...overlap, unit]) > chunkTokens || tokensOf([current[i], ...overlap]) > overlapTokens) break;
+                overlap.unshift(current[i]);
+            }
+            current = overlap;
+        }
+        current.push(unit);
+    });
+    // Every flush is followed by a new unit, so whatever is left is not a pure overlap
+    if (current.length > 0) pieces.push(toPiece(current, separator));
+
+    return pieces;
+};
+
+// Word-aligned windows of `chunkTokens`, stepping back `overlapTokens` each time
+const fixedWindows = (text: string, { chunkTokens, overlapTokens }: ChunkingSettings): Piece[] => {
+    const words: Unit[] = text.split(PAGE_BREAK).flatMap((pageText, i) =>
+        pageText.split(/\s+/).filter(Boolean).map(word => ({ text: word, page: i + 1 }))
+    );
+    const joined = (from: number, to: number) => words.slice(from, to).map(w => w.text).join(" ");
+    const windows: Piece[] = [];
+    let start = 0;
+    while (start < words.length) {
+        let end = start + 1; // A single word longer than a chunk still gets its own window
+        while (end < words.length && estimateTokens(joined(start, end + 1)) <= chunkTokens) end++;
+        windows.push(toPiece(words.slice(start, end), " "));
+        if (end >= words.length) break;
+
+        // Step back over whole words worth about overlapTokens
+        let back = end;
+        while (back > start + 1 && estimateTokens(joined(back - 1, end)) <= overlapTokens) back--;
+        start = back;
+    }
+    return windows;
+};
+
+/**
+ * Splits a document into retrieval chunks with the given strategy. Structure-aware strategies
+ * never cut mid-sentence unless a single sentence is larger than a chunk. Every chunk records
+ * its document name, the heading breadcrumb of its section and, for paged text, its pages.
+ */
+export const chunkDocument = (
+    text: string,
+    document: { id: string; name: string },
+    settings: ChunkingSettings = DEFAULT_CHUNKING
+): Chunk[] => {
+    const pieces: (Piece & { headings: string[] })[] = [];
+
+    if (settings.strategy === ChunkingStrategy.FIXED) {
+        fixedWindows(text, settings).forEach(window => pieces.push({ ...window, headings: [] }));
+    } else {
+        splitSections(text, settings.strategy === ChunkingStrategy.MARKDOWN).forEach(section => {
+            const isSentence = settings.strategy === ChunkingStrategy.SENTENCE;
+            const units = isSentence
+                ? section.paragraphs.flatMap(p => splitSentences(p.text).map(s => ({ text: s, page: p.page })))
+                : section.paragraphs;
+            packUnits(units, settings, isSentence ? " " : "\n\n")
+                .forEach(piece => pieces.push({ ...piece, headings: section.headings }));
+        });
+    }
+
+    const isPaged = text.includes(PAGE_BREAK);
+    return pieces.map((piece, i) => ({
+        id: `${document.id}-chunk-${i}`,
+        documentId: document.id,
+        text: piece.text,
+        metadata: {
+            documentName: document.name,
+            ...(piece.headings.length > 0 ? { headings: piece.headings } : {}),
+            ...(isPaged ? { pageStart: piece.pageStart, pageEnd: piece.pageEnd } : {})
+        }
+    }));
+};
@@ -0,0 +1,61 @@
+import { Chunk, KnowledgeCitation, UploadedDocument } from "../types";
+
+// "[1]", "[2, 3]" or runs like "[1][4]", with the space before them
+const MARKER_PATTERN = /[ \t]*\[\d+(?:\s*,\s*\d+)*\]/g;
+
+export const CITATION_INSTRUCTION = `CITATIONS:
+  Each knowledge chunk above starts with a marker such as [1]. When a sentence relies on a chunk,
+  end it with that chunk's marker, e.g. "...grew 40% last year [2]." Only cite chunks you used.`;
+
+/**
+ * Numbers the chunks that made it into the prompt, in rank order. Chunks indexed before
+ * document names were recorded fall back to the name in the document list.
+ */
+export const toCitations = (chunks: Chunk[], documents: UploadedDocument[]): KnowledgeCitation[] => {
+    return chunks.map((chunk, i) => ({
+        marker: i + 1,
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        documentName: chunk.metadata?.documentName
+            || documents.find(doc => doc.id === chunk.documentId)?.name
+            || chunk.documentId,
+        headings: chunk.metadata?.headings,
+        pageStart: chunk.metadata?.pageStart,
+        pageEnd: chunk.metadata?.pageEnd,
+        text: chunk.text
+    }));
+};
+
+export const formatPageRange = ({ pageStart, pageEnd }: Pick<KnowledgeCitation, "pageStart" | "pageEnd">): string => {
+    if (!pageStart) return "";
+    return pageEnd && pageEnd !== pageStart ? `pp. ${pageStart}-${pageEnd}` : `p. ${pageStart}`;
+};
+
+// e.g. "report.pdf, p. 4 > Pricing > Tiers"
+export const formatCitationSource = (citation: KnowledgeCitation): string => {
+    const pages = formatPageRange(citation);
+    return [
+        pages ? `${citation.documentName}, ${pages}` : citation.documentName,
+        ...(citation.headings || [])
+    ].join(" > ");
+};
+
+// The knowledge block of the prompt, shared by every provider
+export const formatKnowledgeChunks = (citations: KnowledgeCitation[]): string => {
+    if (citations.length === 0) return "";
+    return "\n\nRELEVANT KNOWLEDGE CHUNKS:\n"
+        + citations.map(c => `[${c.marker}] (${formatCitationSource(c)}): ${c.text}\n`).join("")
+        + `\n${CITATION_INSTRUCTION}\n`;
+};
+
+// Markers the draft actually uses, so the sources panel can tell cited chunks from unused ones
+export const getCitedMarkers = (text: string): Set<number> => {
+    const cited = new Set<number>();
+    (text.match(MARKER_PATTERN) || []).forEach(marker => {
+        (marker.match(/\d+/g) || []).forEach(n => cited.add(Number(n)));
+    });
+    return cited;
+};
+
+// For copying: LinkedIn has nowhere to resolve [n], so the markers are dropped
+export const stripCitationMarkers = (text: string): string => text.replace(MARKER_PATTERN, "");
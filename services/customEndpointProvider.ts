@@ -0,0 +1,76 @@
+import OpenAI from "openai";
+import { CustomEndpointConfig, GenerationConfig, GenerationParamKey, ModelInfo, Vendor } from "../types";
+import { OpenAIProvider, SamplingOptions } from "./openaiProvider";
+
+// Local servers (Ollama, LM Studio, vLLM) usually ignore the key, but the SDK requires one
+const PLACEHOLDER_API_KEY = "not-needed";
+
+export const DEFAULT_CUSTOM_ENDPOINT: CustomEndpointConfig = {
+    baseUrl: "http://localhost:11434/v1",
+    embeddingModel: "nomic-embed-text",
+    contextWindow: 8192
+};
+
+/**
+ * Any OpenAI-compatible server at a user-set base URL. Everything, embeddings included,
+ * stays on that server, so it works fully offline against localhost.
+ */
+export class CustomEndpointProvider extends OpenAIProvider {
+    protected readonly vendor: Vendor = Vendor.CUSTOM;
+    private endpoint: CustomEndpointConfig = DEFAULT_CUSTOM_ENDPOINT;
+
+    setEndpoint(endpoint: CustomEndpointConfig) {
+        this.endpoint = endpoint;
+    }
+
+    protected createClient(apiKey: string): OpenAI {
+        return new OpenAI({
+            apiKey: apiKey || PLACEHOLDER_API_KEY,
+            baseURL: this.endpoint.baseUrl.replace(/\/+$/, ""),
+            dangerouslyAllowBrowser: true,
+            maxRetries: 0
+        });
+    }
+
+    protected isChatModel(): boolean {
+        return true;
+    }
+
+    getEmbeddingModel(): string {
+        return this.endpoint.embeddingModel || DEFAULT_CUSTOM_ENDPOINT.embeddingModel;
+    }
+
+    // The server decides the window (e.g. Ollama's num_ctx), so the user states it
+    getContextWindow(): number {
+        return this.endpoint.contextWindow || DEFAULT_CUSTOM_ENDPOINT.contextWindow;
+    }
+
+    getSupportedParams(): GenerationParamKey[] {
+        return ['temperature', 'topP', 'maxOutputTokens'];
+    }
+
+    // Compatible servers implement the classic max_tokens rather than max_completion_tokens
+    protected buildSamplingOptions(config: GenerationConfig): SamplingOptions {
+        return {
+            temperature: config.temperature,
+            top_p: config.topP,
+            max_tokens: config.maxOutputTokens
+        };
+    }
+
+    async fetchModels(apiKey: string): Promise<ModelInfo[]> {
+        const client = this.createClient(apiKey);
+
+        try {
+            const response = await client.models.list();
+            return response.data.map(model => ({
+                name: model.id,
+                displayName: model.id,
+                description: `Served by ${this.endpoint.baseUrl}`
+            }));
+        } catch (error) {
+            console.error("Error listing custom endpoint models:", error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,81 @@
+import { buildKeywordEntry } from './keywordIndex';
+
+const DB_NAME = 'li_arch_rag_db';
+
+export const EMBEDDING_STORE = 'embeddings';
+export const KEYWORD_STORE = 'keywords'; // Vendor-independent BM25 term index, one entry per chunk
+export const CONTENT_STORE = 'documents'; // File data and parsed text, keyed by document id
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Embedding models in use before chunks recorded theirs; custom endpoints were configurable, so unknown
+const LEGACY_EMBEDDING_MODELS: Record<string, string> = {
+    gemini: 'text-embedding-004',
+    openai: 'text-embedding-3-small'
+};
+
+/**
+ * Schema history of the knowledge base database: entry N upgrades version N to N + 1.
+ * Only ever append; released migrations must stay as they are.
+ */
+const MIGRATIONS: Migration[] = [
+    // v1: chunk embeddings
+    (db) => {
+        const store = db.createObjectStore(EMBEDDING_STORE, { keyPath: 'id' });
+        store.createIndex('documentId', 'documentId', { unique: false });
+        store.createIndex('vendor', 'vendor', { unique: false });
+    },
+    // v2: keyword index, backfilled from chunks that were already embedded
+    (db, tx) => {
+        const keywords = db.createObjectStore(KEYWORD_STORE, { keyPath: 'id' });
+        keywords.createIndex('documentId', 'documentId', { unique: false });
+        // Read in one request: a cursor would still be open when v4 replaces the store, aborting the upgrade
+        const request = tx.objectStore(EMBEDDING_STORE).getAll();
+        request.onsuccess = () => request.result.forEach(entry => keywords.put(buildKeywordEntry(entry)));
+    },
+    // v3: document contents, which used to be kept in localStorage with the document list
+    (db) => {
+        db.createObjectStore(CONTENT_STORE, { keyPath: 'id' });
+    },
+    // v4: embeddings keyed by vendor and model too, so one document can be indexed for several
+    (db, tx) => {
+        const request = tx.objectStore(EMBEDDING_STORE).getAll();
+        request.onsuccess = () => {
+            db.deleteObjectStore(EMBEDDING_STORE);
+            const store = db.createObjectStore(EMBEDDING_STORE, { keyPath: ['vendor', 'model', 'id'] });
+            store.createIndex('documentId', 'documentId', { unique: false });
+            store.createIndex('vendor', 'vendor', { unique: false });
+            request.result.forEach(entry => store.put({ ...entry, model: entry.model ?? LEGACY_EMBEDDING_MODELS[entry.vendor] ?? '' }));
+        };
+    }
+];
+
+let opening: Promise<IDBDatabase> | null = null;
+
+// Shared connection for every service that stores knowledge base data
+export const openDatabase = (): Promise<IDBDatabase> => {
+    opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const tx = request.transaction!;
+            for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+                MIGRATIONS[version](db, tx);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab is upgrading: let it, and reopen on next use
+            db.onversionchange = () => {
+                db.close();
+                opening = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => {
+            opening = null;
+            reject(request.error);
+        };
+    });
+    return opening;
+};
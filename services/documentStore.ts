@@ -0,0 +1,82 @@
+import { DocumentContent, KnowledgeMode, UploadedDocument } from '../types';
+import { CONTENT_STORE, openDatabase } from './database';
+
+export interface StorageEstimate {
+    usage: number; // Bytes used by this origin (IndexedDB, caches, ...)
+    quota: number; // Bytes the browser allows it
+}
+
+// Splits a document as it used to be saved, contents inline, into its metadata and contents
+export const splitDocument = ({ data, parsedText, ...meta }: UploadedDocument): { meta: UploadedDocument; content: DocumentContent } => ({
+    meta: { ...meta, textLength: meta.textLength ?? parsedText?.length ?? 0 },
+    content: { id: meta.id, data: data || '', parsedText }
+});
+
+/**
+ * File data and parsed text of uploaded documents, in the knowledge base database. The
+ * document list in React state and localStorage only holds metadata; contents are loaded
+ * when a generation or an indexing run needs them.
+ */
+export class DocumentStore {
+    async saveContents(contents: DocumentContent[]) {
+        const db = await openDatabase();
+        const tx = db.transaction(CONTENT_STORE, 'readwrite');
+        const store = tx.objectStore(CONTENT_STORE);
+        contents.forEach(content => store.put(content));
+
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve(true);
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    async getContent(id: string): Promise<DocumentContent | undefined> {
+        const db = await openDatabase();
+        const request = db.transaction(CONTENT_STORE, 'readonly').objectStore(CONTENT_STORE).get(id);
+
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    // The documents with the contents of active Full Reference ones filled in, ready for a prompt
+    async withContents(documents: UploadedDocument[]): Promise<UploadedDocument[]> {
+        return Promise.all(documents.map(async doc => {
+            if (!doc.isActive || doc.knowledgeMode !== KnowledgeMode.CONTEXT || doc.data !== undefined) return doc;
+            const content = await this.getContent(doc.id);
+            return content ? { ...doc, data: content.data, parsedText: content.parsedText } : doc;
+        }));
+    }
+
+    async deleteContent(id: string) {
+        const db = await openDatabase();
+        const tx = db.transaction(CONTENT_STORE, 'readwrite');
+        tx.objectStore(CONTENT_STORE).delete(id);
+
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve(true);
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    async clear() {
+        const db = await openDatabase();
+        const tx = db.transaction(CONTENT_STORE, 'readwrite');
+        tx.objectStore(CONTENT_STORE).clear();
+
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve(true);
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    // Not every browser reports usage; null then
+    async estimateStorage(): Promise<StorageEstimate | null> {
+        if (!navigator.storage?.estimate) return null;
+        const { usage, quota } = await navigator.storage.estimate();
+        return usage !== undefined && quota ? { usage, quota } : null;
+    }
+}
+
+export const documentStore = new DocumentStore();
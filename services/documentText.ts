@@ -0,0 +1,233 @@
+import { openZip } from './zipArchive';
+
+/*
+ * Text extractors for Word, web page and EPUB uploads. Each one returns Markdown-style text:
+ * headings become "#" lines and blocks are separated by blank lines, which is what the
+ * "Headings + paragraphs" chunking strategy splits on. They need DOMParser, which workers
+ * lack, so they run on the main thread; unzipping is left to the browser's streams.
+ */
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Never readable content, in a web page or an EPUB chapter
+const NON_CONTENT = 'script, style, noscript, template, svg, canvas, iframe, form, button, [aria-hidden="true"]';
+// Site chrome around the content of a web page
+const PAGE_CHROME = 'nav, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"]';
+
+const BLOCKS = new Set(['p', 'div', 'section', 'article', 'main', 'header', 'footer', 'blockquote', 'pre', 'figure', 'figcaption', 'table', 'dl', 'dt', 'dd', 'ul', 'ol', 'address', 'details', 'summary', 'body']);
+
+const normalizeSpaces = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const joinBlocks = (blocks: string[]) => blocks.filter(Boolean).join('\n\n');
+
+/**
+ * Walks an HTML element into blocks: headings as "#" lines, list items as "- " lines, table
+ * rows as cells joined by " | ", and everything else as paragraphs of collapsed whitespace.
+ * Consecutive list items or table rows stay together in one block.
+ */
+const htmlToMarkdown = (root: Element): string => {
+    const blocks: { text: string; kind: 'text' | 'item' | 'row' }[] = [];
+    let inline = '';
+
+    const push = (text: string, kind: 'text' | 'item' | 'row') => {
+        const previous = blocks[blocks.length - 1];
+        if (kind !== 'text' && previous?.kind === kind) previous.text += `\n${text}`;
+        else blocks.push({ text, kind });
+    };
+    const flush = () => {
+        const text = normalizeSpaces(inline);
+        if (text) push(text, 'text');
+        inline = '';
+    };
+
+    const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            inline += node.textContent || '';
+            return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        const element = node as Element;
+        const tag = element.localName;
+
+        const heading = tag.match(/^h([1-6])$/);
+        if (heading) {
+            flush();
+            const title = normalizeSpaces(element.textContent || '');
+            if (title) push(`${'#'.repeat(Number(heading[1]))} ${title}`, 'text');
+        } else if (tag === 'li') {
+            flush();
+            const item = normalizeSpaces(element.textContent || '');
+            if (item) push(`- ${item}`, 'item');
+        } else if (tag === 'tr') {
+            flush();
+            const cells = Array.from(element.children).map(cell => normalizeSpaces(cell.textContent || '')).filter(Boolean);
+            if (cells.length > 0) push(cells.join(' | '), 'row');
+        } else if (tag === 'br') {
+            inline += ' ';
+        } else if (BLOCKS.has(tag)) {
+            flush();
+            element.childNodes.forEach(walk);
+            flush();
+        } else {
+            element.childNodes.forEach(walk);
+        }
+    };
+
+    walk(root);
+    flush();
+    return joinBlocks(blocks.map(block => block.text));
+};
+
+/**
+ * The element holding the main content: an explicit article or main element, else the
+ * element with the most paragraph text directly inside it, else the whole body.
+ */
+const findReadableRoot = (doc: Document): Element => {
+    const marked = doc.querySelector('article, main, [role="main"]');
+    if (marked) return marked;
+
+    const scores = new Map<Element, number>();
+    let total = 0;
+    doc.body.querySelectorAll('p').forEach(p => {
+        const length = normalizeSpaces(p.textContent || '').length;
+        total += length;
+        if (p.parentElement) scores.set(p.parentElement, (scores.get(p.parentElement) || 0) + length);
+    });
+    let best: Element = doc.body;
+    let bestScore = 0;
+    scores.forEach((score, element) => {
+        if (score > bestScore) {
+            best = element;
+            bestScore = score;
+        }
+    });
+    // A container with only part of the text is likely a sidebar or a teaser, not the article
+    return bestScore >= total / 2 ? best : doc.body;
+};
+
+export const extractHtmlText = (html: string): string => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll(`${NON_CONTENT}, ${PAGE_CHROME}`).forEach(element => element.remove());
+    // An article's own header holds its title; only the page's header and footer are chrome
+    doc.querySelectorAll('header, footer').forEach(element => {
+        if (!element.closest('article, main, [role="main"]')) element.remove();
+    });
+    const root = findReadableRoot(doc);
+    const text = htmlToMarkdown(root);
+    const title = normalizeSpaces(doc.title);
+    // Pages often put their title only in <title>; it heads the text so chunks keep it
+    return title && !/^# /m.test(text) ? `# ${title}\n\n${text}` : text;
+};
+
+// Outline levels count from 0; 9 means body text
+const outlineLevel = (properties: Element | undefined): number | null => {
+    const value = properties?.getElementsByTagNameNS(WORD_NS, 'outlineLvl')[0]?.getAttributeNS(WORD_NS, 'val');
+    const level = value ? Number(value) : NaN;
+    return level >= 0 && level < 9 ? Math.min(6, level + 1) : null;
+};
+
+// "Title", "Heading 2" and localized styles that declare an outline level all map to a level
+const styleLevel = (style: Element): number | null => {
+    const name = (style.getElementsByTagNameNS(WORD_NS, 'name')[0]?.getAttributeNS(WORD_NS, 'val') || '').toLowerCase().replace(/\s+/g, '');
+    if (name === 'title') return 1;
+    const match = name.match(/^heading([1-6])$/);
+    return match ? Number(match[1]) : outlineLevel(style.getElementsByTagNameNS(WORD_NS, 'pPr')[0]);
+};
+
+const headingLevel = (paragraph: Element, styleLevels: Map<string, number>): number | null => {
+    const properties = paragraph.getElementsByTagNameNS(WORD_NS, 'pPr')[0];
+    const styleId = properties?.getElementsByTagNameNS(WORD_NS, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') || '';
+    const fromId = styleId.match(/^Heading([1-6])$/);
+    return outlineLevel(properties) ?? styleLevels.get(styleId) ?? (fromId ? Number(fromId[1]) : null);
+};
+
+// Only runs hold text: tab elements in the paragraph properties are tab stops
+const paragraphText = (paragraph: Element): string => {
+    let text = '';
+    Array.from(paragraph.getElementsByTagNameNS(WORD_NS, 'r')).forEach(run => {
+        Array.from(run.children).forEach(node => {
+            if (node.localName === 't') text += node.textContent || '';
+            else if (node.localName === 'tab') text += '\t';
+            else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+        });
+    });
+    return text.trim();
+};
+
+export const extractDocxText = async (data: ArrayBuffer): Promise<string> => {
+    const zip = openZip(data);
+    const parser = new DOMParser();
+    const document = parser.parseFromString(await zip.readText('word/document.xml'), 'application/xml');
+
+    // Style ids are often localized ("Überschrift1"), their names are not
+    const styleLevels = new Map<string, number>();
+    if (zip.has('word/styles.xml')) {
+        const styles = parser.parseFromString(await zip.readText('word/styles.xml'), 'application/xml');
+        Array.from(styles.getElementsByTagNameNS(WORD_NS, 'style')).forEach(style => {
+            const id = style.getAttributeNS(WORD_NS, 'styleId');
+            const level = styleLevel(style);
+            if (id && level) styleLevels.set(id, level);
+        });
+    }
+
+    const body = document.getElementsByTagNameNS(WORD_NS, 'body')[0];
+    if (!body) throw new Error('The Word file has no document body.');
+    const blocks: string[] = [];
+    Array.from(body.children).forEach(element => {
+        if (element.localName === 'p') {
+            const text = paragraphText(element);
+            if (!text) return;
+            const level = headingLevel(element, styleLevels);
+            const isListItem = element.getElementsByTagNameNS(WORD_NS, 'numPr').length > 0;
+            blocks.push(level ? `${'#'.repeat(level)} ${text.replace(/\s+/g, ' ')}` : isListItem ? `- ${text}` : text);
+        } else if (element.localName === 'tbl') {
+            const rows = Array.from(element.getElementsByTagNameNS(WORD_NS, 'tr')).map(row =>
+                Array.from(row.getElementsByTagNameNS(WORD_NS, 'tc')).map(cell =>
+                    Array.from(cell.getElementsByTagNameNS(WORD_NS, 'p')).map(paragraphText).filter(Boolean).join(' ')
+                ).join(' | ')
+            );
+            blocks.push(rows.filter(row => row.replace(/[\s|]/g, '')).join('\n'));
+        }
+    });
+    return joinBlocks(blocks);
+};
+
+// Resolves an href against the directory of the file that holds it, as EPUB paths are relative
+const resolvePath = (base: string, href: string): string => {
+    const parts = base.split('/').slice(0, -1);
+    decodeURIComponent(href.split('#')[0]).split('/').forEach(part => {
+        if (part === '..') parts.pop();
+        else if (part !== '.') parts.push(part);
+    });
+    return parts.join('/');
+};
+
+/**
+ * Reads the chapters of an EPUB in spine (reading) order. Chapters are XHTML, converted like
+ * web pages but without picking a readable root: all of a chapter is content.
+ */
+export const extractEpubText = async (data: ArrayBuffer, onChapter?: (chapter: number, total: number) => void): Promise<string> => {
+    const zip = openZip(data);
+    const parser = new DOMParser();
+    const container = parser.parseFromString(await zip.readText('META-INF/container.xml'), 'application/xml');
+    const packagePath = container.querySelector('rootfile')?.getAttribute('full-path');
+    if (!packagePath) throw new Error('The EPUB has no package file.');
+
+    const pkg = parser.parseFromString(await zip.readText(packagePath), 'application/xml');
+    const manifest = new Map(Array.from(pkg.querySelectorAll('manifest > item')).map(item => [item.getAttribute('id'), item.getAttribute('href')]));
+    const chapters = Array.from(pkg.querySelectorAll('spine > itemref'))
+        .map(ref => manifest.get(ref.getAttribute('idref')))
+        .filter((href): href is string => Boolean(href))
+        .map(href => resolvePath(packagePath, href));
+
+    const texts: string[] = [];
+    for (let i = 0; i < chapters.length; i++) {
+        if (zip.has(chapters[i])) {
+            const chapter = parser.parseFromString(await zip.readText(chapters[i]), 'text/html');
+            chapter.querySelectorAll(NON_CONTENT).forEach(element => element.remove());
+            texts.push(htmlToMarkdown(chapter.body));
+        }
+        onChapter?.(i + 1, chapters.length);
+    }
+    return joinBlocks(texts);
+};
@@ -1,10 +1,20 @@
-import { GoogleGenAI } from "@google/genai";
-import { UploadedDocument, GenerationConfig, ModelInfo, KnowledgeMode, Vendor } from "../types";
-import { LLMProvider, GeneratedResponse } from "./llmProvider";
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { UploadedDocument, GenerationConfig, ModelInfo, Vendor, GenerationParamKey, TokenUsage } from "../types";
+import { LLMProvider, GeneratedResponse, Embeddings, KnowledgeEmbedder } from "./llmProvider";
 import { getSystemInstruction, getUserPrompt } from "./promptUtils";
-import { ragService } from "./ragService";
+import { formatKnowledgeChunks } from "./citations";
+import { PreparedKnowledge, describeKnowledge, prepareKnowledge } from "./knowledge";
+import { ProviderError, ProviderErrorKind } from "./providerErrors";
+import { STRUCTURED_POST_SCHEMA, toStructuredResponse } from "./structuredOutput";
+import { addUsage } from "./usageService";
+
+const EMBEDDING_MODEL = "text-embedding-004";
+// The smallest budget the Pro and 3.x models accept; they can't turn thinking off
+const MIN_THINKING_BUDGET = 128;
 
 export class GeminiProvider implements LLMProvider {
+    readonly supportsEmbeddings = true;
+
     async fetchModels(apiKey: string): Promise<ModelInfo[]> {
         const ai = new GoogleGenAI({ apiKey });
         const models: ModelInfo[] = [];
@@ -29,27 +39,99 @@ export class GeminiProvider implements LLMProvider {
         }
     }
 
+    getSupportedParams(model: string): GenerationParamKey[] {
+        // Only the 2.5+ generation exposes a thinking budget
+        const supportsThinking = /gemini-(2\.5|[3-9])/.test(model);
+        return supportsThinking
+            ? ['temperature', 'topP', 'maxOutputTokens', 'thinkingBudget']
+            : ['temperature', 'topP', 'maxOutputTokens'];
+    }
+
+    /**
+     * Left out when no budget is set, so each model thinks by its own default. Only 2.5 Flash
+     * and Flash-Lite accept a budget of 0; the other thinking models answer it with a 400.
+     */
+    private buildThinkingConfig(model: string, budget?: number) {
+        if (budget === undefined || !this.getSupportedParams(model).includes('thinkingBudget')) return undefined;
+        if (/gemini-2\.5-flash/.test(model)) return { thinkingBudget: budget };
+        return budget === 0 ? undefined : { thinkingBudget: Math.max(MIN_THINKING_BUDGET, budget) };
+    }
+
+    getContextWindow(model: string): number {
+        // 1.0 Pro was the last Gemini model with a small window
+        return /gemini-1\.0/.test(model) ? 32768 : 1048576;
+    }
+
     async generateContent(
         apiKey: string,
         config: GenerationConfig,
-        documents: UploadedDocument[]
+        documents: UploadedDocument[],
+        signal?: AbortSignal
+    ): Promise<GeneratedResponse> {
+        const ai = new GoogleGenAI({ apiKey });
+        const { request, knowledge } = await this.buildRequest(apiKey, config, documents, signal);
+        request.config = { ...request.config, abortSignal: signal };
+
+        const response = await ai.models.generateContent(request);
+        this.assertNotBlocked(response, !!response.text);
+
+        const text = response.text || "No response generated.";
+        const usage = addUsage(this.extractUsage(response), knowledge.usage);
+        const result = { text, sources: this.extractSources(response), ...describeKnowledge(knowledge), usage };
+        return config.structured ? toStructuredResponse(result) : result;
+    }
+
+    async generateContentStream(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        onChunk: (text: string) => void,
+        signal?: AbortSignal
     ): Promise<GeneratedResponse> {
         const ai = new GoogleGenAI({ apiKey });
+        const { request, knowledge } = await this.buildRequest(apiKey, config, documents, signal);
+        request.config = { ...request.config, abortSignal: signal };
 
+        const stream = await ai.models.generateContentStream(request);
+
+        let text = "";
+        let sources: { title: string; uri: string }[] = [];
+        let usage: TokenUsage = { inputTokens: 0, outputTokens: 0, embeddingTokens: 0 };
+        for await (const chunk of stream) {
+            this.assertNotBlocked(chunk, !!text || !!chunk.text);
+            if (chunk.text) {
+                text += chunk.text;
+                onChunk(chunk.text);
+            }
+            // Grounding metadata is only complete on the final chunks of the stream
+            const chunkSources = this.extractSources(chunk);
+            if (chunkSources.length > 0) sources = chunkSources;
+            // Usage is cumulative, so the last chunk carrying it wins
+            if (chunk.usageMetadata) usage = this.extractUsage(chunk);
+        }
+
+        const result = { text: text || "No response generated.", sources, ...describeKnowledge(knowledge), usage: addUsage(usage, knowledge.usage) };
+        return config.structured ? toStructuredResponse(result) : result;
+    }
+
+    private async buildRequest(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        signal?: AbortSignal
+    ): Promise<{ request: GenerateContentParameters; knowledge: PreparedKnowledge }> {
         const urlRegex = /(https?:\/\/[^\s]+)/g;
         const hasUrl = config.context && urlRegex.test(config.context);
 
-        const activeDocs = documents.filter(doc => doc.isActive);
-        const ragDocs = activeDocs.filter(doc => doc.knowledgeMode === KnowledgeMode.RAG);
-        const contextDocs = activeDocs.filter(doc => doc.knowledgeMode === KnowledgeMode.CONTEXT);
-
-        const systemInstruction = getSystemInstruction(config.personality);
+        const systemInstruction = getSystemInstruction(config.personality, config.styleExamples);
         const userPromptText = getUserPrompt(config);
 
+        const knowledge = await prepareKnowledge({ provider: this, apiKey, config, documents, signal });
+
         const parts: any[] = [];
 
         // Add Context documents (Full text or Multimedia)
-        contextDocs.forEach(doc => {
+        knowledge.contextDocs.forEach(doc => {
             if (doc.parsedText) {
                 parts.push({ text: `--- DOCUMENT: ${doc.name} ---\n${doc.parsedText}\n` });
             } else {
@@ -62,35 +144,72 @@ export class GeminiProvider implements LLMProvider {
             }
         });
 
-        // Add RAG chunks if needed
-        if (ragDocs.length > 0) {
-            const queryEmbeddings = await this.generateEmbeddings(apiKey, [config.braindump || config.context]);
-            const relevantChunks = await ragService.searchSimilar(queryEmbeddings[0], Vendor.GEMINI);
-
-            if (relevantChunks.length > 0) {
-                let ragContext = "\n\nRELEVANT KNOWLEDGE CHUNKS:\n";
-                relevantChunks.forEach(chunk => {
-                    ragContext += `[From ${chunk.documentId}]: ${chunk.text}\n`;
-                });
-                parts.push({ text: ragContext });
-            }
+        if (knowledge.citations.length > 0) {
+            parts.push({ text: formatKnowledgeChunks(knowledge.citations) });
         }
 
         // Add prompt
         parts.push({ text: userPromptText });
 
-        const response = await ai.models.generateContent({
+        const request: GenerateContentParameters = {
             model: config.model,
             contents: { parts: parts },
             config: {
                 systemInstruction: systemInstruction,
-                temperature: 0.8,
-                tools: hasUrl ? [{ googleSearch: {} }] : undefined,
-                thinkingConfig: { thinkingBudget: 0 }
+                temperature: config.temperature ?? 0.8,
+                topP: config.topP,
+                maxOutputTokens: config.maxOutputTokens,
+                // Search grounding cannot be combined with a response schema
+                tools: hasUrl && !config.structured ? [{ googleSearch: {} }] : undefined,
+                responseMimeType: config.structured ? "application/json" : undefined,
+                responseJsonSchema: config.structured ? STRUCTURED_POST_SCHEMA : undefined,
+                thinkingConfig: this.buildThinkingConfig(config.model, config.thinkingBudget)
+            }
+        };
+
+        return { request, knowledge };
+    }
+
+    // Gemini reports safety blocks as a normal response with no text rather than an error
+    private assertNotBlocked(response: GenerateContentResponse, hasText: boolean) {
+        const blockReason = response.promptFeedback?.blockReason;
+        const finishReason = response.candidates?.[0]?.finishReason;
+        const blockedFinish = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII"];
+        if (blockReason || (!hasText && finishReason && blockedFinish.includes(finishReason))) {
+            throw new ProviderError(
+                ProviderErrorKind.SAFETY,
+                `Gemini blocked the ${blockReason ? "prompt" : "reply"} (${blockReason || finishReason}).`,
+                Vendor.GEMINI
+            );
+        }
+    }
+
+    async complete(apiKey: string, model: string, prompt: string, signal?: AbortSignal): Promise<{ text: string; usage: TokenUsage }> {
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: {
+                abortSignal: signal,
+                temperature: 0.3,
+                // Short helper prompts don't need reasoning where it can be turned off
+                thinkingConfig: this.buildThinkingConfig(model, 0)
             }
         });
+        this.assertNotBlocked(response, !!response.text);
+        return { text: response.text || "", usage: this.extractUsage(response) };
+    }
 
-        const text = response.text || "No response generated.";
+    private extractUsage(response: GenerateContentResponse): TokenUsage {
+        const metadata = response.usageMetadata;
+        return {
+            inputTokens: metadata?.promptTokenCount ?? 0,
+            outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+            embeddingTokens: 0
+        };
+    }
+
+    private extractSources(response: GenerateContentResponse): { title: string; uri: string }[] {
         const sources: { title: string; uri: string }[] = [];
 
         if (response.candidates?.[0]?.groundingMetadata?.groundingChunks) {
@@ -104,23 +223,34 @@ export class GeminiProvider implements LLMProvider {
             });
         }
 
-        return { text, sources };
+        return sources;
     }
 
-    async generateEmbeddings(apiKey: string, chunks: string[]): Promise<number[][]> {
+    getEmbeddingModel(): string {
+        return EMBEDDING_MODEL;
+    }
+
+    getEmbedder(apiKey: string): KnowledgeEmbedder {
+        return { vendor: Vendor.GEMINI, model: EMBEDDING_MODEL, embed: (texts, signal) => this.generateEmbeddings(apiKey, texts, signal) };
+    }
+
+    async generateEmbeddings(apiKey: string, chunks: string[], signal?: AbortSignal): Promise<Embeddings> {
         const ai = new GoogleGenAI({ apiKey });
 
         try {
-            const results = await Promise.all(chunks.map(text =>
-                ai.models.embedContent({
-                    model: "text-embedding-004",
-                    contents: [{ parts: [{ text }] }]
-                })
-            ));
-            return results.map(r => {
-                const values = r.embeddings?.[0]?.values;
-                return values ? Array.from(values) : [];
+            // One batch request for all texts; callers keep batches under the API's limit of 100
+            const result = await ai.models.embedContent({
+                model: EMBEDDING_MODEL,
+                contents: chunks.map(text => ({ parts: [{ text }] })),
+                config: { abortSignal: signal }
             });
+            // The Gemini API reports no token usage for embeddings
+            return {
+                vectors: chunks.map((_, i) => {
+                    const values = result.embeddings?.[i]?.values;
+                    return values ? Array.from(values) : [];
+                })
+            };
         } catch (error) {
             console.error("Error generating Gemini embeddings:", error);
             throw error;
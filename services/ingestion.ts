@@ -0,0 +1,231 @@
+import { Chunk, ChunkingSettings, EmbeddingIndex, OcrInfo, UploadedDocument, Vendor } from "../types";
+import { DEFAULT_CHUNKING, isSameChunking } from "./chunking";
+import { documentStore } from "./documentStore";
+import { extractDocxText, extractEpubText, extractHtmlText } from "./documentText";
+import { getProvider } from "./llmFactory";
+import { sleep, withRetry } from "./providerErrors";
+import { ragService } from "./ragService";
+import { estimateTokens } from "./tokenBudget";
+import { usageService } from "./usageService";
+
+// Under Gemini's cap of 100 texts per batch request; OpenAI allows far more
+const EMBEDDING_BATCH_SIZE = 32;
+// Spacing between embedding requests, shared by every document being indexed (~60 per minute)
+const MIN_REQUEST_INTERVAL_MS = 1000;
+
+export type IngestionRequest =
+    | { type: "parse-pdf"; data: ArrayBuffer }
+    | { type: "chunk"; text: string; document: { id: string; name: string }; settings: ChunkingSettings };
+
+export type IngestionResponse =
+    | { type: "progress"; stage: IngestionProgress["stage"]; done: number; total: number }
+    | { type: "parsed"; text: string; ocr?: OcrInfo; unreadPages?: number[] }
+    | { type: "chunked"; chunks: Chunk[] }
+    | { type: "error"; message: string };
+
+export interface IngestionProgress {
+    stage: "parsing" | "ocr" | "chunking" | "embedding";
+    done: number; // Pages read, scanned pages recognized or chunks embedded
+    total: number; // 0 while not known yet
+}
+
+/**
+ * Runs one request in a fresh worker, which is terminated when it answers or when the signal
+ * aborts, so cancelling stops parsing or chunking mid-way.
+ */
+const runInWorker = <T extends IngestionResponse["type"]>(
+    request: IngestionRequest,
+    expected: T,
+    signal?: AbortSignal,
+    onProgress?: (progress: IngestionProgress) => void
+): Promise<Extract<IngestionResponse, { type: T }>> => {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL("./ingestion.worker.ts", import.meta.url), { type: "module" });
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener("abort", onAbort);
+        };
+        const onAbort = () => {
+            finish();
+            reject(new DOMException("Aborted", "AbortError"));
+        };
+        if (signal?.aborted) return onAbort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        worker.onmessage = (event: MessageEvent<IngestionResponse>) => {
+            const response = event.data;
+            if (response.type === "progress") {
+                onProgress?.({ stage: response.stage, done: response.done, total: response.total });
+                return;
+            }
+            finish();
+            if (response.type === expected) resolve(response as Extract<IngestionResponse, { type: T }>);
+            else reject(new Error(response.type === "error" ? response.message : `Unexpected ${response.type} from the ingestion worker`));
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || "The ingestion worker failed to start"));
+        };
+        worker.postMessage(request, request.type === "parse-pdf" ? [request.data] : []);
+    });
+};
+
+export interface ParsedDocument {
+    text: string;
+    ocr?: OcrInfo; // Set when scanned pages of a PDF were read by OCR
+    unreadPages?: number[]; // Set when scanned pages of a PDF couldn't be read, and have no text
+}
+
+export const parsePdf = async (
+    data: ArrayBuffer,
+    { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: IngestionProgress) => void } = {}
+): Promise<ParsedDocument> => {
+    onProgress?.({ stage: "parsing", done: 0, total: 0 });
+    const { text, ocr, unreadPages } = await runInWorker({ type: "parse-pdf", data }, "parsed", signal, onProgress);
+    return { text, ocr, unreadPages };
+};
+
+export type DocumentFormat = "pdf" | "docx" | "html" | "epub" | "text";
+
+// What the file picker offers; anything else is rejected on upload
+export const SUPPORTED_EXTENSIONS = [".pdf", ".docx", ".html", ".htm", ".epub", ".txt", ".md"];
+
+const FORMAT_MIME_TYPES: Record<DocumentFormat, string> = {
+    pdf: "application/pdf",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    html: "text/html",
+    epub: "application/epub+zip",
+    text: "text/plain"
+};
+
+// By extension first: browsers report an empty or generic type for many of these
+export const detectFormat = (file: { name: string; type: string }): DocumentFormat | null => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith(".pdf") || file.type === FORMAT_MIME_TYPES.pdf) return "pdf";
+    if (name.endsWith(".docx") || file.type === FORMAT_MIME_TYPES.docx) return "docx";
+    if (name.endsWith(".epub") || file.type === FORMAT_MIME_TYPES.epub) return "epub";
+    if (name.endsWith(".html") || name.endsWith(".htm") || file.type === FORMAT_MIME_TYPES.html) return "html";
+    if (name.endsWith(".md") || name.endsWith(".txt") || file.type.startsWith("text/")) return "text";
+    return null;
+};
+
+export const getFormatMimeType = (format: DocumentFormat): string => FORMAT_MIME_TYPES[format];
+
+/**
+ * The text of an uploaded file, ready for chunking: PDFs are parsed in the worker, with OCR
+ * for scanned pages; Word, web page and EPUB files are converted to Markdown-style text with
+ * their headings.
+ */
+export const parseDocument = async (
+    file: File,
+    format: DocumentFormat,
+    options: { signal?: AbortSignal; onProgress?: (progress: IngestionProgress) => void } = {}
+): Promise<ParsedDocument> => {
+    if (format === "pdf") return parsePdf(await file.arrayBuffer(), options);
+    // Use modern file.text() for robust UTF-8 reading
+    if (format === "text") return { text: await file.text() };
+
+    options.onProgress?.({ stage: "parsing", done: 0, total: 0 });
+    const text = format === "docx" ? await extractDocxText(await file.arrayBuffer())
+        : format === "epub" ? await extractEpubText(await file.arrayBuffer(), (done, total) => {
+            options.signal?.throwIfAborted();
+            options.onProgress?.({ stage: "parsing", done, total });
+        })
+        : extractHtmlText(await file.text());
+    options.signal?.throwIfAborted();
+    // Unlike PDFs, these can't be sent to the model as files, so they need text to be of use
+    if (!text.trim()) throw new Error(`No readable text found in ${file.name}.`);
+    return { text };
+};
+
+let nextRequestAt = 0;
+
+const waitForRequestSlot = async (signal?: AbortSignal) => {
+    const now = Date.now();
+    const slot = Math.max(now, nextRequestAt);
+    nextRequestAt = slot + MIN_REQUEST_INTERVAL_MS;
+    if (slot > now) await sleep(slot - now, signal);
+};
+
+export interface IndexJob {
+    doc: UploadedDocument;
+    vendor: Vendor;
+    apiKey: string;
+    resume?: boolean; // Keep the chunks already embedded: an unfinished run, or other vendors' indexes (see canKeepIndexes)
+    signal?: AbortSignal;
+    onProgress?: (progress: IngestionProgress) => void;
+}
+
+/**
+ * Whether a run may add to the document's indexes rather than replace them. Chunk ids are
+ * positional, so embeddings of chunks cut another way hold other text under the same ids; they
+ * only stay valid while every index was cut the way the document is cut now.
+ */
+export const canKeepIndexes = (doc: UploadedDocument): boolean => {
+    const chunking = doc.chunking || DEFAULT_CHUNKING;
+    return (doc.embeddingIndexes || []).every(index => index.chunking !== undefined && isSameChunking(index.chunking, chunking));
+};
+
+/**
+ * Chunks a document in the worker and stores its keyword index, then embeds the chunks in
+ * rate-limited batches, saving each batch as it arrives so a cancelled or failed run can resume
+ * where it stopped. Embedding stays on the main thread: it only waits on the network, and
+ * provider setup (custom endpoint, mock mode) lives here. Resolves with the finished index for
+ * the vendor's current embedding model.
+ */
+export const indexDocument = async ({ doc, vendor, apiKey, resume, signal, onProgress }: IndexJob): Promise<EmbeddingIndex> => {
+    const provider = getProvider(vendor);
+    const model = provider.getEmbeddingModel();
+    onProgress?.({ stage: "chunking", done: 0, total: 0 });
+    const content = (await documentStore.getContent(doc.id)) || doc;
+    const chunking = doc.chunking || DEFAULT_CHUNKING;
+    const { chunks } = await runInWorker({
+        type: "chunk",
+        text: content.parsedText || atob(content.data || ""),
+        document: { id: doc.id, name: doc.name },
+        settings: chunking
+    }, "chunked", signal);
+
+    // A fresh run replaces every previous index, whose chunk count may differ
+    const existing = resume ? await ragService.getIndexedChunks(doc.id, vendor, model) : { ids: new Set<string>(), dimensions: null };
+    if (!resume) await ragService.deleteDocumentData(doc.id);
+    // Searchable by keyword from here on, even if embedding fails or is cancelled
+    await ragService.saveKeywordEntries(chunks);
+    const indexed = existing.ids;
+    let dimensions = existing.dimensions;
+
+    const pending = chunks.filter(chunk => !indexed.has(chunk.id));
+    let embedded = chunks.length - pending.length;
+    onProgress?.({ stage: "embedding", done: embedded, total: chunks.length });
+
+    for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+        signal?.throwIfAborted();
+        await waitForRequestSlot(signal);
+        const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const { vectors: embeddings, tokens } = await withRetry(() => provider.generateEmbeddings(apiKey, batch.map(c => c.text), signal), vendor, { signal });
+
+        // Vectors of mixed sizes can't be searched together: the endpoint switched models mid-way
+        dimensions ??= embeddings[0]?.length ?? null;
+        const mismatch = embeddings.find(e => e.length !== dimensions);
+        if (embeddings.length !== batch.length || mismatch) {
+            throw new Error(`${model} returned ${mismatch?.length ?? "missing"} embedding dimensions where this index has ${dimensions}. Check the embedding model configured for ${vendor}.`);
+        }
+
+        // Saved even if cancelled meanwhile: the batch is already paid for
+        await ragService.saveEmbeddings(batch, vendor, model, embeddings);
+        usageService.record({
+            vendor,
+            model,
+            kind: "indexing",
+            inputTokens: 0,
+            outputTokens: 0,
+            // Estimated when the vendor reports no usage
+            embeddingTokens: tokens ?? batch.reduce((sum, c) => sum + estimateTokens(c.text), 0)
+        }).catch(err => console.warn("Failed to record usage:", err));
+
+        embedded += batch.length;
+        onProgress?.({ stage: "embedding", done: embedded, total: chunks.length });
+    }
+
+    return { vendor, model, dimensions: dimensions ?? 0, chunkCount: chunks.length, chunking };
+};
@@ -0,0 +1,24 @@
+// @ts-ignore
+import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.mjs';
+import { chunkDocument } from './chunking';
+import { extractPdfText } from './pdfText';
+import type { IngestionRequest, IngestionResponse } from './ingestion';
+
+// Already off the main thread, so pdfjs runs its worker code in this one instead of spawning another
+(globalThis as any).pdfjsWorker = pdfjsWorker;
+
+const post = (response: IngestionResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<IngestionRequest>) => {
+    const request = event.data;
+    try {
+        if (request.type === 'parse-pdf') {
+            const { text, ocr, unreadPages } = await extractPdfText(request.data, (stage, done, total) => post({ type: 'progress', stage, done, total }));
+            post({ type: 'parsed', text, ocr, unreadPages });
+        } else {
+            post({ type: 'chunked', chunks: chunkDocument(request.text, request.document, request.settings) });
+        }
+    } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,106 @@
+import { ChunkMetadata } from "../types";
+
+// BM25 constants: k1 controls term-frequency saturation, b the document-length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Reciprocal rank fusion damping; 60 is the value from the original RRF paper
+const RRF_K = 60;
+
+const STOPWORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "in", "into",
+    "is", "it", "its", "of", "on", "or", "our", "so", "that", "the", "their", "this", "to", "was",
+    "we", "were", "will", "with", "you", "your"
+]);
+
+export interface KeywordEntry {
+    id: string; // Same id as the chunk
+    documentId: string;
+    text: string;
+    metadata?: ChunkMetadata;
+    terms: Record<string, number>; // Term -> frequency in this chunk
+    length: number; // Token count after stopword removal
+}
+
+/*
+ * Term maps are keyed by words, and words like "constructor" or "toString" name members every
+ * object inherits. Maps are built without a prototype, but entries read back from IndexedDB
+ * are plain objects again, so lookups only count a term's own key.
+ */
+const frequency = (terms: Record<string, number>, term: string): number =>
+    Object.hasOwn(terms, term) ? terms[term] : 0;
+
+/**
+ * Lowercased words and numbers. Inner dots, dashes and slashes are kept so product names,
+ * versions and figures ("gpt-4o", "3.5", "24/7") stay one term.
+ */
+export const tokenize = (text: string): string[] => {
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+(?:[.\-/'][\p{L}\p{N}]+)*%?/gu) || [];
+    return tokens.filter(token => !STOPWORDS.has(token));
+};
+
+export const buildKeywordEntry = (chunk: { id: string; documentId: string; text: string; metadata?: ChunkMetadata }): KeywordEntry => {
+    const tokens = tokenize(chunk.text);
+    const terms: Record<string, number> = Object.create(null);
+    tokens.forEach(token => {
+        terms[token] = frequency(terms, token) + 1;
+    });
+    return { id: chunk.id, documentId: chunk.documentId, text: chunk.text, metadata: chunk.metadata, terms, length: tokens.length };
+};
+
+/**
+ * Okapi BM25 over the given entries, best first. Document frequencies are computed on the
+ * entries themselves, so scores reflect only the documents being searched.
+ */
+export const rankBM25 = (query: string, entries: KeywordEntry[]): { entry: KeywordEntry; score: number }[] => {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || entries.length === 0) return [];
+
+    const averageLength = entries.reduce((sum, e) => sum + e.length, 0) / entries.length || 1;
+    const idf = new Map(queryTerms.map(term => {
+        const df = entries.filter(e => frequency(e.terms, term) > 0).length;
+        return [term, Math.log(1 + (entries.length - df + 0.5) / (df + 0.5))];
+    }));
+
+    return entries
+        .map(entry => ({
+            entry,
+            score: queryTerms.reduce((sum, term) => {
+                const tf = frequency(entry.terms, term);
+                if (tf === 0) return sum;
+                const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * entry.length / averageLength);
+                return sum + idf.get(term)! * (tf * (BM25_K1 + 1)) / norm;
+            }, 0)
+        }))
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score);
+};
+
+// Cosine similarity of two term-frequency maps: 1 for the same wording, 0 for no shared terms
+export const termSimilarity = (a: Record<string, number>, b: Record<string, number>): number => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (const term of Object.keys(a)) {
+        normA += a[term] * a[term];
+        dot += a[term] * frequency(b, term);
+    }
+    for (const term of Object.keys(b)) normB += b[term] * b[term];
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Reciprocal rank fusion: each ranking adds weight / (k + rank) to an id's score. Only ranks
+ * are used, so cosine similarities and BM25 scores never need to be on the same scale.
+ */
+export const fuseRankings = (rankings: { ids: string[]; weight: number }[]): { id: string; score: number }[] => {
+    const scores = new Map<string, number>();
+    rankings.forEach(({ ids, weight }) => {
+        if (weight <= 0) return;
+        ids.forEach((id, rank) => {
+            scores.set(id, (scores.get(id) || 0) + weight / (RRF_K + rank + 1));
+        });
+    });
+    return Array.from(scores.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([id, score]) => ({ id, score }));
+};
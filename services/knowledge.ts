@@ -0,0 +1,93 @@
+import { Chunk, GenerationConfig, KnowledgeCitation, KnowledgeMode, RetrievedKnowledge, TokenUsage, UploadedDocument } from "../types";
+import { LLMProvider } from "./llmProvider";
+import { getSystemInstruction } from "./promptUtils";
+import { toCitations } from "./citations";
+import { ragService } from "./ragService";
+import { BudgetReport, fitToBudget } from "./tokenBudget";
+import { buildRetrievalQueries } from "./queryExpansion";
+import { NO_USAGE, addUsage } from "./usageService";
+
+export interface KnowledgeRequest {
+    provider: LLMProvider; // Generates: expands the queries, embeds them and sets the context window
+    apiKey: string;
+    config: GenerationConfig;
+    documents: UploadedDocument[];
+    signal?: AbortSignal;
+}
+
+export interface PreparedKnowledge {
+    contextDocs: UploadedDocument[]; // Full references, trimmed to the budget
+    chunks: Chunk[]; // Smart Search chunks that fit, in rank order
+    report: BudgetReport;
+    citations: KnowledgeCitation[]; // The chunks, numbered as the model cites them
+    retrievalQueries: string[];
+    vectorSearchSkipped?: string;
+    usage: TokenUsage; // Query expansion and query embedding; the generation adds its own
+}
+
+// The fields of a generated response that say what knowledge went into it
+export const describeKnowledge = ({ citations, retrievalQueries, vectorSearchSkipped, report }: PreparedKnowledge) => ({
+    citations,
+    retrievalQueries,
+    vectorSearchSkipped,
+    budget: report
+});
+
+/**
+ * Smart Search over the active RAG documents, after any query expansion. Nothing runs when
+ * no document is in Smart Search mode.
+ */
+export const retrieveKnowledge = async ({ provider, apiKey, config, documents, signal }: KnowledgeRequest): Promise<RetrievedKnowledge> => {
+    const ragDocs = documents.filter(doc => doc.isActive && doc.knowledgeMode === KnowledgeMode.RAG);
+    if (ragDocs.length === 0) return { chunks: [], queries: [], usage: NO_USAGE };
+
+    const embedder = provider.getEmbedder(apiKey, config);
+    if (!embedder.embed) {
+        console.warn(`Smart Search is keyword-only: ${embedder.vendor} has no embeddings configured.`);
+    }
+    const expansion = await buildRetrievalQueries(config, prompt => provider.complete(apiKey, config.model, prompt, signal), signal);
+    const embed = embedder.embed;
+    const { chunks, embeddingTokens, vectorSearchSkipped } = await ragService.retrieve({
+        queries: expansion.queries,
+        documentIds: ragDocs.map(doc => doc.id),
+        vendor: embedder.vendor,
+        model: embedder.model,
+        settings: config.retrieval,
+        overrides: config.chunkOverrides,
+        embed: embed && (texts => embed(texts, signal)),
+        signal
+    });
+    return { chunks, queries: expansion.queries, usage: addUsage(expansion.usage, { ...NO_USAGE, embeddingTokens }), vectorSearchSkipped };
+};
+
+/**
+ * Everything a provider sends besides the instructions: the Smart Search results (found
+ * here, or beforehand when the config carries them) and the full references, fitted into
+ * the model's context window, with the kept chunks numbered for citing.
+ */
+export const prepareKnowledge = async (request: KnowledgeRequest): Promise<PreparedKnowledge> => {
+    const { provider, config, documents } = request;
+    // Results found beforehand were paid for, and recorded, by whoever found them
+    const retrieved = config.retrieved
+        ? { ...config.retrieved, usage: NO_USAGE }
+        : await retrieveKnowledge(request);
+
+    const activeDocs = documents.filter(doc => doc.isActive);
+    const { contextDocs, chunks, report } = fitToBudget({
+        systemInstruction: getSystemInstruction(config.personality, config.styleExamples),
+        config,
+        contextDocs: activeDocs.filter(doc => doc.knowledgeMode === KnowledgeMode.CONTEXT),
+        chunks: retrieved.chunks,
+        contextWindow: provider.getContextWindow(config.model)
+    });
+
+    return {
+        contextDocs,
+        chunks,
+        report,
+        citations: toCitations(chunks, activeDocs),
+        retrievalQueries: retrieved.queries,
+        vectorSearchSkipped: retrieved.vectorSearchSkipped,
+        usage: retrieved.usage
+    };
+};
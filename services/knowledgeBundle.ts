@@ -0,0 +1,165 @@
+import { Chunk, DocumentContent, EmbeddingIndex, KnowledgeMode, UploadedDocument, Vendor } from '../types';
+import { documentStore } from './documentStore';
+import { EmbeddingEntry, ragService } from './ragService';
+
+const BUNDLE_FORMAT = 'linkedin-architect-knowledge-base';
+const BUNDLE_VERSION = 1;
+
+export interface BundleEmbedding {
+    chunkId: string;
+    vendor: Vendor;
+    model: string;
+    vector: string; // Base64 of the Float32 values, a quarter of the size of JSON numbers
+}
+
+export interface BundleDocument {
+    document: UploadedDocument;
+    content: DocumentContent;
+    chunks: Chunk[];
+    embeddings: BundleEmbedding[];
+}
+
+export interface KnowledgeBundle {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    documents: BundleDocument[];
+}
+
+export interface ImportReport {
+    imported: string[]; // Document names
+    duplicates: string[]; // Already in the knowledge base, left as they are
+    // Indexes left out, e.g. a model name already indexed locally with vectors of another size
+    rejectedIndexes: string[];
+    needsReindex: string[]; // Imported without embeddings for the current vendor and model
+}
+
+const encodeVector = (values: number[]): string => {
+    const bytes = new Uint8Array(new Float32Array(values).buffer);
+    let binary = '';
+    bytes.forEach(byte => binary += String.fromCharCode(byte));
+    return btoa(binary);
+};
+
+const decodeVector = (vector: string): number[] => {
+    const binary = atob(vector);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return Array.from(new Float32Array(bytes.buffer));
+};
+
+const indexKey = ({ vendor, model }: { vendor: Vendor; model: string }) => `${vendor}/${model}`;
+
+const describeIndex = ({ vendor, model }: { vendor: Vendor; model: string }) => `${vendor.toUpperCase()} (${model || 'unknown model'})`;
+
+// Uploading the same file twice gives it a new id, so equal name, size and text count as the same too
+const isSameDocument = (a: UploadedDocument, b: UploadedDocument): boolean =>
+    a.id === b.id || (a.name === b.name && a.size === b.size && (a.textLength ?? 0) === (b.textLength ?? 0));
+
+/**
+ * Everything needed to rebuild the documents in another browser: metadata, file data and
+ * parsed text, chunks, and embeddings tagged with their vendor and model.
+ */
+export const exportBundle = async (documents: UploadedDocument[]): Promise<KnowledgeBundle> => {
+    const { chunks, embeddings } = await ragService.exportDocumentData(documents.map(doc => doc.id));
+    const bundled = await Promise.all(documents.map(async ({ indexProgress, ...document }): Promise<BundleDocument> => ({
+        // An unfinished index is not exported: its chunks would look complete on import
+        document: indexProgress ? { ...document, isIndexed: false, embeddingIndexes: undefined } : document,
+        content: (await documentStore.getContent(document.id)) || { id: document.id, data: '' },
+        chunks: indexProgress ? [] : chunks.filter(chunk => chunk.documentId === document.id),
+        embeddings: indexProgress ? [] : embeddings
+            .filter(entry => entry.documentId === document.id)
+            .map(entry => ({ chunkId: entry.id, vendor: entry.vendor, model: entry.model, vector: encodeVector(entry.embedding) }))
+    })));
+    return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), documents: bundled };
+};
+
+export const parseBundle = (text: string): KnowledgeBundle => {
+    let bundle: KnowledgeBundle;
+    try {
+        bundle = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not a knowledge base bundle (invalid JSON).');
+    }
+    if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.documents)) {
+        throw new Error('The file is not a knowledge base bundle.');
+    }
+    if (bundle.version > BUNDLE_VERSION) {
+        throw new Error(`The bundle was made by a newer version of the app (bundle version ${bundle.version}).`);
+    }
+    return bundle;
+};
+
+/**
+ * Merges a bundle into the knowledge base: contents into the document store, chunks and
+ * embeddings into the index, and the documents it returns into the list. Documents already
+ * there are skipped. Each embedding index is checked before it is stored: every vector must
+ * have the same size, and a vendor and model already indexed locally must match that size.
+ * Documents then lacking embeddings for the current vendor and model show up as stale, so
+ * their keyword chunks work at once and re-indexing needs one click.
+ */
+export const importBundle = async (
+    bundle: KnowledgeBundle,
+    existing: UploadedDocument[],
+    current: { vendor: Vendor; model: string }
+): Promise<{ documents: UploadedDocument[]; report: ImportReport }> => {
+    const report: ImportReport = { imported: [], duplicates: [], rejectedIndexes: [], needsReindex: [] };
+    const documents: UploadedDocument[] = [];
+    // Vector sizes already in use locally, by vendor and model
+    const localDimensions = new Map(existing.flatMap(doc => doc.embeddingIndexes || []).map(index => [indexKey(index), index.dimensions]));
+
+    for (const { document, content, chunks, embeddings } of bundle.documents) {
+        if ([...existing, ...documents].some(doc => isSameDocument(doc, document))) {
+            report.duplicates.push(document.name);
+            continue;
+        }
+
+        const chunkById = new Map(chunks.map(chunk => [chunk.id, chunk]));
+        const byIndex = new Map<string, EmbeddingEntry[]>();
+        embeddings.forEach(({ chunkId, vendor, model, vector }) => {
+            const chunk = chunkById.get(chunkId);
+            if (!chunk) return;
+            const key = indexKey({ vendor, model });
+            if (!byIndex.has(key)) byIndex.set(key, []);
+            byIndex.get(key)!.push({ ...chunk, vendor, model, embedding: decodeVector(vector) });
+        });
+
+        const accepted: EmbeddingEntry[] = [];
+        const embeddingIndexes: EmbeddingIndex[] = [];
+        byIndex.forEach((entries, key) => {
+            const dimensions = entries[0].embedding.length;
+            const label = `${document.name}: ${describeIndex(entries[0])}`;
+            if (entries.some(entry => entry.embedding.length !== dimensions)) {
+                report.rejectedIndexes.push(`${label} has vectors of mixed sizes`);
+            } else if (localDimensions.has(key) && localDimensions.get(key) !== dimensions) {
+                report.rejectedIndexes.push(`${label} has ${dimensions} dimensions, ${localDimensions.get(key)} here`);
+            } else {
+                accepted.push(...entries);
+                const chunking = document.embeddingIndexes?.find(index => indexKey(index) === key)?.chunking;
+                embeddingIndexes.push({ vendor: entries[0].vendor, model: entries[0].model, dimensions, chunkCount: entries.length, chunking });
+                localDimensions.set(key, dimensions);
+            }
+        });
+
+        await documentStore.saveContents([{ ...content, id: document.id }]);
+        await ragService.importDocumentData(chunks, accepted);
+
+        const isIndexed = chunks.length > 0;
+        documents.push({
+            ...document,
+            data: undefined,
+            parsedText: undefined,
+            textLength: document.textLength ?? content.parsedText?.length ?? 0,
+            knowledgeMode: isIndexed ? document.knowledgeMode : KnowledgeMode.CONTEXT,
+            isIndexed,
+            indexProgress: undefined,
+            embeddingIndexes
+        });
+        report.imported.push(document.name);
+        if (isIndexed && !embeddingIndexes.some(index => indexKey(index) === indexKey(current))) {
+            report.needsReindex.push(document.name);
+        }
+    }
+
+    return { documents, report };
+};
@@ -0,0 +1,128 @@
+import { UploadedDocument } from '../types';
+import { documentStore } from './documentStore';
+import { openZip } from './zipArchive';
+
+// Recent posts sent as voice examples, each cut to keep the system instruction small
+const STYLE_EXAMPLE_COUNT = 5;
+const STYLE_EXAMPLE_CHARS = 1200;
+
+export interface ArchiveRecord {
+    kind: 'post' | 'comment';
+    date: string; // As exported, "YYYY-MM-DD HH:MM:SS", so it sorts as text
+    text: string;
+}
+
+// Section headings of the archive text; each record is a "##" heading with its date under one
+const SECTIONS: Record<ArchiveRecord['kind'], string> = { post: 'Posts', comment: 'Comments' };
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) rows.push([...row, field]);
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// Rows as records keyed by lowercased header, tolerant of reordered or added columns
+const readRows = (csv: string): Record<string, string>[] => {
+    const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+    if (!header) return [];
+    const keys = header.map(key => key.trim().toLowerCase());
+    return rows.map(cells => Object.fromEntries(keys.map((key, i) => [key, cells[i] || ''])));
+};
+
+/**
+ * Reads the posts (Shares.csv) and comments (Comments.csv) of a LinkedIn data export, newest
+ * first. Reposts without commentary have no text of their own and are left out.
+ */
+export const readLinkedInArchive = async (data: ArrayBuffer): Promise<ArchiveRecord[]> => {
+    const zip = openZip(data);
+    // Exports have put the files at the root and in folders; matched by file name
+    const find = (name: string) => zip.paths.find(path => path.split('/').pop()?.toLowerCase() === name);
+    const shares = find('shares.csv');
+    const comments = find('comments.csv');
+    if (!shares && !comments) throw new Error('No Shares.csv or Comments.csv found. Is this a LinkedIn data export?');
+
+    const records: ArchiveRecord[] = [];
+    if (shares) {
+        readRows(await zip.readText(shares)).forEach(row => records.push({ kind: 'post', date: row['date'] || '', text: (row['sharecommentary'] || '').trim() }));
+    }
+    if (comments) {
+        readRows(await zip.readText(comments)).forEach(row => records.push({ kind: 'comment', date: row['date'] || '', text: (row['message'] || '').trim() }));
+    }
+    return records.filter(record => record.text).sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * The archive as text for the knowledge base: a section per kind and a dated heading per
+ * record, so chunking keeps one record per chunk where it fits and citations show the date.
+ */
+export const formatArchive = (records: ArchiveRecord[]): string => {
+    // A line of a post that looks like a heading would split the record
+    const escape = (text: string) => text.replace(/^(#{1,6}\s)/gm, '\\$1');
+    return (['post', 'comment'] as const)
+        .filter(kind => records.some(record => record.kind === kind))
+        .map(kind => [
+            `# ${SECTIONS[kind]}`,
+            ...records.filter(record => record.kind === kind).map(record => `## ${record.date || 'Undated'}\n\n${escape(record.text)}`)
+        ].join('\n\n'))
+        .join('\n\n');
+};
+
+// Reads back what formatArchive wrote
+export const parseArchiveText = (text: string): ArchiveRecord[] => {
+    const records: ArchiveRecord[] = [];
+    let kind: ArchiveRecord['kind'] | null = null;
+    text.split(/^(?=#{1,2} )/m).forEach(block => {
+        const [heading, ...body] = block.split('\n');
+        if (heading.startsWith('# ')) {
+            kind = heading === `# ${SECTIONS.post}` ? 'post' : heading === `# ${SECTIONS.comment}` ? 'comment' : null;
+        } else if (kind && heading.startsWith('## ')) {
+            records.push({ kind, date: heading.slice(3), text: body.join('\n').trim().replace(/^\\(#{1,6}\s)/gm, '$1') });
+        }
+    });
+    return records;
+};
+
+// The most recent posts, as examples of how the person writes
+export const pickStyleExamples = (records: ArchiveRecord[]): string[] =>
+    records
+        .filter(record => record.kind === 'post')
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, STYLE_EXAMPLE_COUNT)
+        .map(record => record.text.length > STYLE_EXAMPLE_CHARS ? `${record.text.slice(0, STYLE_EXAMPLE_CHARS)}…` : record.text);
+
+// Voice examples from the active archives marked as style references, loaded for a generation
+export const loadStyleExamples = async (documents: UploadedDocument[]): Promise<string[]> => {
+    const archives = documents.filter(doc => doc.isActive && doc.linkedinArchive?.styleReference);
+    const contents = await Promise.all(archives.map(doc => documentStore.getContent(doc.id)));
+    return pickStyleExamples(contents.flatMap(content => parseArchiveText(content?.parsedText || '')));
+};
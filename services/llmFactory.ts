@@ -1,20 +1,53 @@
-import { Vendor } from "../types";
+import { CustomEndpointConfig, Vendor } from "../types";
 import { GeminiProvider } from "./geminiProvider";
 import { OpenAIProvider } from "./openaiProvider";
+import { AnthropicProvider } from "./anthropicProvider";
+import { CustomEndpointProvider } from "./customEndpointProvider";
+import { MockProvider } from "./mockProvider";
 import { LLMProvider } from "./llmProvider";
 
+const customEndpointProvider = new CustomEndpointProvider();
+
 const providers: Record<Vendor, LLMProvider> = {
     [Vendor.GEMINI]: new GeminiProvider(),
-    [Vendor.OPENAI]: new OpenAIProvider()
+    [Vendor.OPENAI]: new OpenAIProvider(),
+    [Vendor.ANTHROPIC]: new AnthropicProvider(vendor => getProvider(vendor)),
+    [Vendor.CUSTOM]: customEndpointProvider
+};
+
+/**
+ * Offline mock mode, enabled with the `?mock` URL flag or `VITE_MOCK_LLM=true`.
+ * Every vendor is then served by a deterministic MockProvider.
+ */
+export const isMockMode = (): boolean => {
+    if (import.meta.env.VITE_MOCK_LLM === 'true') return true;
+    return typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('mock');
 };
 
+const mockProviders = {} as Record<Vendor, LLMProvider>;
+
 export const getProvider = (vendor: Vendor): LLMProvider => {
+    if (isMockMode()) {
+        mockProviders[vendor] ??= new MockProvider(vendor);
+        return mockProviders[vendor];
+    }
     return providers[vendor];
 };
 
 export const getAvailableVendors = (): { id: Vendor; name: string }[] => {
     return [
         { id: Vendor.GEMINI, name: "Gemini" },
-        { id: Vendor.OPENAI, name: "OpenAI" }
+        { id: Vendor.OPENAI, name: "OpenAI" },
+        { id: Vendor.ANTHROPIC, name: "Anthropic" },
+        { id: Vendor.CUSTOM, name: "Custom Endpoint" }
     ];
 };
+
+export const configureCustomEndpoint = (endpoint: CustomEndpointConfig) => {
+    customEndpointProvider.setEndpoint(endpoint);
+};
+
+// Vendors that can index documents for Smart Search
+export const getEmbeddingVendors = (): { id: Vendor; name: string }[] => {
+    return getAvailableVendors().filter(v => getProvider(v.id).supportsEmbeddings);
+};
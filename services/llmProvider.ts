@@ -1,16 +1,64 @@
-import { UploadedDocument, GenerationConfig, ModelInfo } from "../types";
+import { UploadedDocument, GenerationConfig, ModelInfo, GenerationParamKey, TokenUsage, StructuredPost, KnowledgeCitation, Vendor } from "../types";
+import { BudgetReport } from "./tokenBudget";
 
 export interface GeneratedResponse {
     text: string;
     sources: { title: string; uri: string }[];
+    citations?: KnowledgeCitation[]; // Knowledge chunks sent with the prompt, numbered as the model cites them
+    retrievalQueries?: string[]; // What Smart Search searched for, after any query expansion
+    vectorSearchSkipped?: string; // Why Smart Search fell back to keywords only, when it did
+    budget?: BudgetReport; // How the prompt was fitted into the context window
+    usage?: TokenUsage;
+    structured?: StructuredPost; // Set in structured mode; `text` is then the assembled post
+}
+
+export interface Embeddings {
+    vectors: number[][];
+    tokens?: number; // Input tokens billed, when the vendor reports them
+}
+
+// The index Smart Search reads: the vendor and model that embedded the documents
+export interface KnowledgeEmbedder {
+    vendor: Vendor;
+    model: string;
+    // Left out when there are no embeddings, so only the keyword side runs
+    embed?: (texts: string[], signal?: AbortSignal) => Promise<Embeddings>;
 }
 
 export interface LLMProvider {
+    /** Whether this vendor can embed documents for Smart Search. */
+    readonly supportsEmbeddings: boolean;
     fetchModels(apiKey: string): Promise<ModelInfo[]>;
+    /** Generation parameters the given model accepts; the others are ignored. */
+    getSupportedParams(model: string): GenerationParamKey[];
+    /** Context window of the given model, in tokens. */
+    getContextWindow(model: string): number;
+    /** Every request it makes, retrieval included, is cancelled when the signal aborts. */
     generateContent(
         apiKey: string,
         config: GenerationConfig,
-        documents: UploadedDocument[]
+        documents: UploadedDocument[],
+        signal?: AbortSignal
+    ): Promise<GeneratedResponse>;
+    /**
+     * Streams the generation, calling onChunk with each text delta as it arrives.
+     * Resolves with the full text and any grounding sources once the stream ends.
+     */
+    generateContentStream(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        onChunk: (text: string) => void,
+        signal?: AbortSignal
     ): Promise<GeneratedResponse>;
-    generateEmbeddings(apiKey: string, chunks: string[]): Promise<number[][]>;
+    /**
+     * Plain single-turn completion, without system prompt or knowledge, for helper steps
+     * such as query expansion.
+     */
+    complete(apiKey: string, model: string, prompt: string, signal?: AbortSignal): Promise<{ text: string; usage: TokenUsage }>;
+    generateEmbeddings(apiKey: string, chunks: string[], signal?: AbortSignal): Promise<Embeddings>;
+    /** Model used by generateEmbeddings, for usage and cost tracking. */
+    getEmbeddingModel(): string;
+    /** How Smart Search embeds the queries of a generation with this provider. */
+    getEmbedder(apiKey: string, config: GenerationConfig): KnowledgeEmbedder;
 }
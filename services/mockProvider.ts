@@ -0,0 +1,246 @@
+import { UploadedDocument, GenerationConfig, ModelInfo, Vendor, GenerationParamKey, TokenUsage } from "../types";
+import { LLMProvider, GeneratedResponse, Embeddings, KnowledgeEmbedder } from "./llmProvider";
+import { estimateTokens } from "./tokenBudget";
+import { toStructuredResponse } from "./structuredOutput";
+import { describeKnowledge, prepareKnowledge } from "./knowledge";
+import { addUsage } from "./usageService";
+
+const EMBEDDING_DIMENSIONS = 64;
+const STREAM_DELAY_MS = 15;
+const MOCK_CONTEXT_WINDOW = 8192;
+
+const MOCK_MODELS: ModelInfo[] = [
+    { name: "mock-fast", displayName: "Mock Fast", description: "Scripted offline model for development and tests." },
+    { name: "mock-pro", displayName: "Mock Pro", description: "Scripted offline model for development and tests." }
+];
+
+// FNV-1a, so the same word always lands in the same embedding dimension
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(new DOMException("Aborted", "AbortError"));
+    }, { once: true });
+});
+
+/**
+ * Deterministic provider that never touches the network. Generations echo the inputs and the
+ * knowledge that was retrieved, and embeddings are hashed bags of words, so the whole
+ * upload → index → retrieve → generate → refine flow can run offline and in e2e tests.
+ */
+export class MockProvider implements LLMProvider {
+    readonly supportsEmbeddings = true;
+
+    constructor(private vendor: Vendor) { }
+
+    async fetchModels(): Promise<ModelInfo[]> {
+        return MOCK_MODELS;
+    }
+
+    getSupportedParams(): GenerationParamKey[] {
+        return ['temperature', 'topP', 'maxOutputTokens', 'thinkingBudget'];
+    }
+
+    // Deliberately small so trimming can be exercised with modest test documents
+    getContextWindow(): number {
+        return MOCK_CONTEXT_WINDOW;
+    }
+
+    async generateContent(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        signal?: AbortSignal
+    ): Promise<GeneratedResponse> {
+        return this.buildResponse(apiKey, config, documents, signal);
+    }
+
+    async generateContentStream(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        onChunk: (text: string) => void,
+        signal?: AbortSignal
+    ): Promise<GeneratedResponse> {
+        const response = await this.buildResponse(apiKey, config, documents, signal);
+
+        // Emit word by word (keeping whitespace) to exercise the live draft
+        for (const token of response.text.match(/\S+\s*/g) || []) {
+            await sleep(STREAM_DELAY_MS, signal);
+            onChunk(token);
+        }
+
+        return response;
+    }
+
+    // Expands on the key points (else the context) so expanded queries are predictable in tests
+    async complete(_apiKey: string, _model: string, prompt: string, signal?: AbortSignal): Promise<{ text: string; usage: TokenUsage }> {
+        signal?.throwIfAborted();
+        const subject = [/^KEY POINTS: (.+)$/m, /^CONTEXT: (.+)$/m]
+            .map(pattern => prompt.match(pattern)?.[1])
+            .find(value => value && value !== "none") || "mock";
+        const text = /short passage/.test(prompt)
+            ? `Mock passage: ${subject} is covered in detail here.`
+            : `${subject} examples\n${subject} statistics`;
+        return { text, usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text), embeddingTokens: 0 } };
+    }
+
+    getEmbeddingModel(): string {
+        return "mock-embedding";
+    }
+
+    getEmbedder(apiKey: string): KnowledgeEmbedder {
+        return { vendor: this.vendor, model: this.getEmbeddingModel(), embed: (texts, signal) => this.generateEmbeddings(apiKey, texts, signal) };
+    }
+
+    async generateEmbeddings(_apiKey: string, chunks: string[], signal?: AbortSignal): Promise<Embeddings> {
+        signal?.throwIfAborted();
+        // "[mock-embedding-error]" in a text fails the embeddings call, as an offline vendor would
+        if (chunks.some(text => text.includes("[mock-embedding-error]"))) throw this.simulateError("network");
+        const vectors = chunks.map(text => {
+            const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+            const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+            words.forEach(word => {
+                vector[hashString(word) % EMBEDDING_DIMENSIONS] += 1;
+            });
+            const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+            return vector.map(v => v / norm);
+        });
+        return { vectors };
+    }
+
+    // Shaped like the SDK errors (status, headers, message) so the real classifier handles them
+    private simulateError(kind: string): Error {
+        const apiError = (status: number, message: string, headers: Record<string, string> = {}) =>
+            Object.assign(new Error(message), { status, headers });
+
+        switch (kind) {
+            case "auth": return apiError(401, "Incorrect API key provided.");
+            case "quota": return apiError(429, "You exceeded your current quota, please check your plan and billing details.");
+            // The vendors' real bodies: a Gemini free-tier daily limit and an OpenAI account without credit
+            case "gemini_daily_quota": return apiError(429, JSON.stringify({
+                error: {
+                    code: 429,
+                    message: "You exceeded your current quota, please check your plan and billing details. For more information on this error, head to: https://ai.google.dev/gemini-api/docs/rate-limits. To monitor your current usage, head to: https://ai.dev/usage?tab=rate-limit. \n* Quota exceeded for metric: generativelanguage.googleapis.com/generate_content_free_tier_requests, limit: 50, model: gemini-2.5-pro\nPlease retry in 26.66s.",
+                    status: "RESOURCE_EXHAUSTED",
+                    details: [
+                        {
+                            "@type": "type.googleapis.com/google.rpc.QuotaFailure",
+                            violations: [{
+                                quotaMetric: "generativelanguage.googleapis.com/generate_content_free_tier_requests",
+                                quotaId: "GenerateRequestsPerDayPerProjectPerModel-FreeTier",
+                                quotaDimensions: { location: "global", model: "gemini-2.5-pro" },
+                                quotaValue: "50"
+                            }]
+                        },
+                        { "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "26s" }
+                    ]
+                }
+            }));
+            case "openai_insufficient_quota": return Object.assign(apiError(429, "429 You exceeded your current quota, please check your plan and billing details. For more information on this error, read the docs: https://platform.openai.com/docs/guides/error-codes/api-errors."), {
+                code: "insufficient_quota",
+                type: "insufficient_quota",
+                error: {
+                    message: "You exceeded your current quota, please check your plan and billing details. For more information on this error, read the docs: https://platform.openai.com/docs/guides/error-codes/api-errors.",
+                    type: "insufficient_quota",
+                    param: null,
+                    code: "insufficient_quota"
+                }
+            });
+            case "rate_limit": return apiError(429, "Rate limit reached for requests.", { "retry-after-ms": "50" });
+            case "context_length": return apiError(400, "This model's maximum context length is 8192 tokens.");
+            case "safety": return apiError(400, "The response was blocked by safety filters.");
+            case "network": return new TypeError("Failed to fetch");
+            default: return apiError(500, `Simulated ${kind} failure.`);
+        }
+    }
+
+    private async buildResponse(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        signal?: AbortSignal
+    ): Promise<GeneratedResponse> {
+        // Scripted failures, e.g. "[mock-error:rate_limit]" in the instructions, to exercise error handling
+        const forcedError = `${config.context} ${config.braindump}`.match(/\[mock-error:(\w+)\]/);
+        if (forcedError) throw this.simulateError(forcedError[1]);
+
+        const knowledge = await prepareKnowledge({ provider: this, apiKey, config, documents, signal });
+        signal?.throwIfAborted();
+        const { contextDocs, chunks, citations, report } = knowledge;
+
+        const lines: string[] = [
+            config.currentDraft ? `[MOCK] Refined ${config.postType} (${config.model})` : `[MOCK] ${config.postType} (${config.model})`,
+            "",
+            `Context: ${config.context || "none"}`,
+            `Key points: ${config.braindump || "none"}`,
+            `Voice: ${config.personality}`
+        ];
+
+        if (config.styleExamples && config.styleExamples.length > 0) {
+            lines.push(`Voice examples: ${config.styleExamples.map(example => example.split("\n")[0].slice(0, 40)).join(" | ")}`);
+        }
+
+        if (config.variant && config.variant.total > 1) {
+            lines[0] += ` variant ${config.variant.index} of ${config.variant.total}`;
+        }
+
+        const sampling = this.getSupportedParams()
+            .filter(key => config[key] !== undefined)
+            .map(key => `${key}=${config[key]}`);
+        if (sampling.length > 0) {
+            lines.push(`Sampling: ${sampling.join(", ")}`);
+        }
+
+        if (contextDocs.length > 0) {
+            lines.push(`Full references: ${contextDocs.map(doc => doc.name).join(", ")}`);
+        }
+
+        chunks.forEach(chunk => {
+            const headings = chunk.metadata?.headings;
+            const label = headings && headings.length > 0 ? `Knowledge (${headings.join(" > ")})` : "Knowledge";
+            lines.push(`${label}: ${chunk.text.slice(0, 80)}`);
+        });
+
+        // Cites every chunk it was given, so markers and the sources panel can be exercised
+        if (citations.length > 0) {
+            lines.push(`Cited: ${citations.map(c => `[${c.marker}]`).join(" ")}`);
+        }
+
+        if (config.currentDraft) {
+            lines.push("", `Previous draft: ${config.currentDraft.split("\n")[0]}`);
+        }
+
+        // Mirror Google Search grounding: every URL in the context becomes a source
+        const urls = config.context.match(/https?:\/\/[^\s]+/g) || [];
+        const sources = urls.map(uri => ({ title: `Mock source: ${new URL(uri).hostname}`, uri }));
+
+        const text = config.structured ? this.buildStructuredReply(lines, config) : lines.join("\n");
+        const usage: TokenUsage = addUsage({ inputTokens: report.total, outputTokens: estimateTokens(text), embeddingTokens: 0 }, knowledge.usage);
+
+        const result = { text, sources, ...describeKnowledge(knowledge), usage };
+        return config.structured ? toStructuredResponse(result) : result;
+    }
+
+    // Same echo as free-text mode, split into the structured fields as JSON
+    private buildStructuredReply(lines: string[], config: GenerationConfig): string {
+        const keywords = (config.braindump.match(/[A-Za-z]{4,}/g) || ["mock"]).slice(0, 3);
+        return JSON.stringify({
+            body: lines.slice(2).join("\n"),
+            hooks: [lines[0], `Hook B: ${config.postType} about ${keywords[0]}`, `Hook C: what nobody tells you about ${keywords[0]}`],
+            hashtags: keywords.map(word => `#${word.toLowerCase()}`),
+            callToAction: "What would you add? [MOCK CTA]",
+            summary: `Mock ${config.postType} on ${keywords.join(", ")}`
+        });
+    }
+}
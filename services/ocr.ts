@@ -0,0 +1,100 @@
+import { OPS } from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+// The SIMD build with the WASM inlined, so one file is the whole core
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import languageUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+/*
+ * Reads scanned PDF pages with Tesseract, a WASM OCR engine that runs in the browser. The
+ * page image never leaves the device; the engine, its WASM core and the language data are
+ * bundled with the app and loaded the first time a scanned page needs them, so text PDFs
+ * cost nothing.
+ */
+
+const OCR_LANGUAGE = 'eng';
+// Pages render at 216 DPI: small print is legible to the engine, and an A4 page stays ~4 MP
+const RENDER_SCALE = 3;
+
+const IMAGE_OPS: number[] = [
+    OPS.paintImageXObject, OPS.paintImageXObjectRepeat, OPS.paintInlineImageXObject, OPS.paintInlineImageXObjectGroup,
+    OPS.paintImageMaskXObject, OPS.paintImageMaskXObjectGroup
+];
+
+export interface RecognizedPage {
+    text: string;
+    confidence: number; // 0-100, the engine's mean word confidence
+}
+
+export interface OcrEngine {
+    recognize: (page: PDFPageProxy) => Promise<RecognizedPage>;
+    terminate: () => Promise<void>;
+}
+
+/**
+ * pdf.js draws scratch canvases (masks, patterns) through this factory; the default one
+ * needs a document, which the ingestion worker lacks.
+ */
+export class OffscreenCanvasFactory {
+    create(width: number, height: number) {
+        const canvas = new OffscreenCanvas(width, height);
+        return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+    }
+
+    reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+        canvasAndContext.canvas.width = width;
+        canvasAndContext.canvas.height = height;
+    }
+
+    destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+        if (canvasAndContext.canvas) {
+            // Zero-sized, so the browser frees the bitmap before the canvas is collected
+            canvasAndContext.canvas.width = 0;
+            canvasAndContext.canvas.height = 0;
+        }
+        canvasAndContext.canvas = null;
+        canvasAndContext.context = null;
+    }
+}
+
+// A page holds a scan when it paints images; pages with no images and no text are simply blank
+export const hasImages = async (page: PDFPageProxy): Promise<boolean> => {
+    const { fnArray } = await page.getOperatorList();
+    return fnArray.some(op => IMAGE_OPS.includes(op));
+};
+
+// Tesseract can't resolve relative paths from inside a worker
+const absolute = (url: string) => new URL(url, import.meta.url).href;
+
+// Takes a few seconds: the engine and its language data are loaded on first use
+export const createOcrEngine = async (): Promise<OcrEngine> => {
+    const [{ createWorker }, response] = await Promise.all([import('tesseract.js'), fetch(absolute(languageUrl))]);
+    if (!response.ok) throw new Error(`The OCR language data failed to load (${response.status})`);
+    const data = new Uint8Array(await response.arrayBuffer());
+    const worker = await createWorker([{ code: OCR_LANGUAGE, data }], undefined, {
+        workerPath: absolute(workerUrl),
+        corePath: absolute(coreUrl),
+        // The browser's HTTP cache already keeps the language data
+        cacheMethod: 'none'
+    });
+
+    const recognize = async (page: PDFPageProxy): Promise<RecognizedPage> => {
+        const viewport = page.getViewport({ scale: RENDER_SCALE });
+        const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        try {
+            await page.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport }).promise;
+            const { data } = await worker.recognize(await canvas.convertToBlob({ type: 'image/png' }));
+            return { text: data.text.trim(), confidence: data.confidence };
+        } finally {
+            canvas.width = 0;
+            canvas.height = 0;
+        }
+    };
+
+    return {
+        recognize,
+        terminate: async () => {
+            await worker.terminate();
+        }
+    };
+};
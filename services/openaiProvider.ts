@@ -1,17 +1,84 @@
 import OpenAI from "openai";
-import { UploadedDocument, GenerationConfig, ModelInfo, KnowledgeMode, Vendor } from "../types";
-import { LLMProvider, GeneratedResponse } from "./llmProvider";
-import { getSystemInstruction, getUserPrompt, formatDocumentContext } from "./promptUtils";
-import { ragService } from "./ragService";
+import { ChatCompletionMessageParam, ChatCompletionCreateParamsBase } from "openai/resources/chat/completions";
+import { ResponseFormatJSONSchema } from "openai/resources/shared";
+import { UploadedDocument, GenerationConfig, ModelInfo, Vendor, GenerationParamKey, TokenUsage } from "../types";
+import { LLMProvider, GeneratedResponse, Embeddings, KnowledgeEmbedder } from "./llmProvider";
+import { getSystemInstruction, getUserPrompt } from "./promptUtils";
+import { formatKnowledgeChunks } from "./citations";
+import { PreparedKnowledge, describeKnowledge, prepareKnowledge } from "./knowledge";
+import { ProviderError, ProviderErrorKind } from "./providerErrors";
+import { STRUCTURED_POST_SCHEMA, toStructuredResponse } from "./structuredOutput";
+import { addUsage } from "./usageService";
+
+export type SamplingOptions = Pick<
+    ChatCompletionCreateParamsBase,
+    'temperature' | 'top_p' | 'max_tokens' | 'max_completion_tokens' | 'reasoning_effort'
+>;
 
 export class OpenAIProvider implements LLMProvider {
+    readonly supportsEmbeddings = true;
+    // Vendor the embeddings are stored under in the RAG index
+    protected readonly vendor: Vendor = Vendor.OPENAI;
+
+    protected createClient(apiKey: string): OpenAI {
+        // Retries are handled by withRetry in the shared error layer
+        return new OpenAI({ apiKey, dangerouslyAllowBrowser: true, maxRetries: 0 });
+    }
+
+    protected isChatModel(modelId: string): boolean {
+        return modelId.startsWith("gpt-");
+    }
+
+    getEmbeddingModel(): string {
+        return "text-embedding-3-small";
+    }
+
+    getEmbedder(apiKey: string): KnowledgeEmbedder {
+        return { vendor: this.vendor, model: this.getEmbeddingModel(), embed: (texts, signal) => this.generateEmbeddings(apiKey, texts, signal) };
+    }
+
+    // o-series and gpt-5 reason internally and reject sampling options
+    protected isReasoningModel(modelId: string): boolean {
+        return /^(o\d|gpt-5)/.test(modelId);
+    }
+
+    getSupportedParams(model: string): GenerationParamKey[] {
+        return this.isReasoningModel(model)
+            ? ['maxOutputTokens', 'thinkingBudget']
+            : ['temperature', 'topP', 'maxOutputTokens'];
+    }
+
+    getContextWindow(model: string): number {
+        if (/^gpt-4\.1/.test(model)) return 1047576;
+        if (/^gpt-5/.test(model)) return 400000;
+        if (/^o\d/.test(model)) return 200000;
+        if (/^gpt-3\.5/.test(model)) return 16385;
+        if (/^gpt-4($|-\d{4})/.test(model)) return 8192;
+        return 128000; // gpt-4o, gpt-4-turbo and most current chat models
+    }
+
+    protected buildSamplingOptions(config: GenerationConfig): SamplingOptions {
+        const supported = this.getSupportedParams(config.model);
+        const options: SamplingOptions = {};
+
+        if (supported.includes('temperature') && config.temperature !== undefined) options.temperature = config.temperature;
+        if (supported.includes('topP') && config.topP !== undefined) options.top_p = config.topP;
+        if (supported.includes('maxOutputTokens') && config.maxOutputTokens !== undefined) options.max_completion_tokens = config.maxOutputTokens;
+        if (supported.includes('thinkingBudget') && config.thinkingBudget !== undefined) {
+            // OpenAI takes an effort level rather than a token budget
+            options.reasoning_effort = config.thinkingBudget <= 2048 ? 'low' : config.thinkingBudget <= 16384 ? 'medium' : 'high';
+        }
+
+        return options;
+    }
+
     async fetchModels(apiKey: string): Promise<ModelInfo[]> {
-        const openai = new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
+        const openai = this.createClient(apiKey);
 
         try {
             const response = await openai.models.list();
             return response.data
-                .filter(model => model.id.startsWith("gpt-"))
+                .filter(model => this.isChatModel(model.id))
                 .map(model => ({
                     name: model.id,
                     displayName: model.id,
@@ -26,61 +93,141 @@ export class OpenAIProvider implements LLMProvider {
     async generateContent(
         apiKey: string,
         config: GenerationConfig,
-        documents: UploadedDocument[]
+        documents: UploadedDocument[],
+        signal?: AbortSignal
     ): Promise<GeneratedResponse> {
-        const openai = new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
+        const openai = this.createClient(apiKey);
+        const { messages, knowledge } = await this.buildMessages(apiKey, config, documents, signal);
+
+        const response = await openai.chat.completions.create({
+            model: config.model,
+            messages,
+            ...this.buildSamplingOptions(config),
+            response_format: this.buildResponseFormat(config),
+        }, { signal });
 
-        const activeDocs = documents.filter(doc => doc.isActive);
-        const ragDocs = activeDocs.filter(doc => doc.knowledgeMode === KnowledgeMode.RAG);
-        const contextDocs = activeDocs.filter(doc => doc.knowledgeMode === KnowledgeMode.CONTEXT);
+        if (!response.choices[0]?.message?.content && response.choices[0]?.finish_reason === "content_filter") {
+            throw new ProviderError(ProviderErrorKind.SAFETY, "The reply was withheld by the content filter.", this.vendor);
+        }
 
-        const systemInstruction = getSystemInstruction(config.personality);
+        const text = response.choices[0]?.message?.content || "No response generated.";
+        const usage: TokenUsage = {
+            inputTokens: response.usage?.prompt_tokens ?? 0,
+            outputTokens: response.usage?.completion_tokens ?? 0,
+            embeddingTokens: 0
+        };
+
+        // OpenAI chat completions don't provide grounding sources as easily
+        const result = { text, sources: [], ...describeKnowledge(knowledge), usage: addUsage(usage, knowledge.usage) };
+        return config.structured ? toStructuredResponse(result) : result;
+    }
+
+    async generateContentStream(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        onChunk: (text: string) => void,
+        signal?: AbortSignal
+    ): Promise<GeneratedResponse> {
+        const openai = this.createClient(apiKey);
+        const { messages, knowledge } = await this.buildMessages(apiKey, config, documents, signal);
+
+        const stream = await openai.chat.completions.create({
+            model: config.model,
+            messages,
+            ...this.buildSamplingOptions(config),
+            response_format: this.buildResponseFormat(config),
+            stream: true,
+            // Adds a final chunk with no choices that carries the token usage
+            stream_options: { include_usage: true },
+        }, { signal });
+
+        let text = "";
+        const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, embeddingTokens: 0 };
+        for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta?.content;
+            if (delta) {
+                text += delta;
+                onChunk(delta);
+            }
+            if (!text && chunk.choices[0]?.finish_reason === "content_filter") {
+                throw new ProviderError(ProviderErrorKind.SAFETY, "The reply was withheld by the content filter.", this.vendor);
+            }
+            if (chunk.usage) {
+                usage.inputTokens = chunk.usage.prompt_tokens;
+                usage.outputTokens = chunk.usage.completion_tokens;
+            }
+        }
+
+        const result = { text: text || "No response generated.", sources: [], ...describeKnowledge(knowledge), usage: addUsage(usage, knowledge.usage) };
+        return config.structured ? toStructuredResponse(result) : result;
+    }
+
+    protected buildResponseFormat(config: GenerationConfig): ResponseFormatJSONSchema | undefined {
+        if (!config.structured) return undefined;
+        return {
+            type: "json_schema",
+            json_schema: { name: "linkedin_post", schema: STRUCTURED_POST_SCHEMA, strict: true }
+        };
+    }
+
+    private async buildMessages(
+        apiKey: string,
+        config: GenerationConfig,
+        documents: UploadedDocument[],
+        signal?: AbortSignal
+    ): Promise<{ messages: ChatCompletionMessageParam[]; knowledge: PreparedKnowledge }> {
+        const systemInstruction = getSystemInstruction(config.personality, config.styleExamples);
+
+        const knowledge = await prepareKnowledge({ provider: this, apiKey, config, documents, signal });
 
         // Construct full user prompt with context and RAG chunks
         let fullUserPrompt = "";
 
         // Add Context documents
-        contextDocs.forEach(doc => {
+        knowledge.contextDocs.forEach(doc => {
             fullUserPrompt += `\n--- DOCUMENT: ${doc.name} ---\n${doc.parsedText || ""}\n`;
         });
 
-        // Add RAG chunks
-        if (ragDocs.length > 0) {
-            const queryEmbeddings = await this.generateEmbeddings(apiKey, [config.braindump || config.context]);
-            const relevantChunks = await ragService.searchSimilar(queryEmbeddings[0], Vendor.OPENAI);
-
-            if (relevantChunks.length > 0) {
-                fullUserPrompt += "\n\nRELEVANT KNOWLEDGE CHUNKS:\n";
-                relevantChunks.forEach(chunk => {
-                    fullUserPrompt += `[From ${chunk.documentId}]: ${chunk.text}\n`;
-                });
-            }
-        }
+        // Add RAG chunks, numbered so the model can cite them
+        fullUserPrompt += formatKnowledgeChunks(knowledge.citations);
 
         fullUserPrompt += getUserPrompt(config);
 
-        const response = await openai.chat.completions.create({
-            model: config.model,
-            messages: [
-                { role: "system", content: systemInstruction },
-                { role: "user", content: fullUserPrompt }
-            ],
-        });
+        const messages: ChatCompletionMessageParam[] = [
+            { role: "system", content: systemInstruction },
+            { role: "user", content: fullUserPrompt }
+        ];
 
-        const text = response.choices[0]?.message?.content || "No response generated.";
+        return { messages, knowledge };
+    }
 
-        return { text, sources: [] }; // OpenAI chat completions don't provide grounding sources as easily
+    async complete(apiKey: string, model: string, prompt: string, signal?: AbortSignal): Promise<{ text: string; usage: TokenUsage }> {
+        const openai = this.createClient(apiKey);
+        const response = await openai.chat.completions.create({
+            model,
+            messages: [{ role: "user", content: prompt }]
+        }, { signal });
+        return {
+            text: response.choices[0]?.message?.content || "",
+            usage: {
+                inputTokens: response.usage?.prompt_tokens ?? 0,
+                outputTokens: response.usage?.completion_tokens ?? 0,
+                embeddingTokens: 0
+            }
+        };
     }
 
-    async generateEmbeddings(apiKey: string, chunks: string[]): Promise<number[][]> {
-        const openai = new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
+    async generateEmbeddings(apiKey: string, chunks: string[], signal?: AbortSignal): Promise<Embeddings> {
+        const openai = this.createClient(apiKey);
 
         try {
             const response = await openai.embeddings.create({
-                model: "text-embedding-3-small",
+                model: this.getEmbeddingModel(),
                 input: chunks,
-            });
-            return response.data.map(item => item.embedding);
+            }, { signal });
+            // Some OpenAI-compatible servers leave usage out
+            return { vectors: response.data.map(item => item.embedding), tokens: response.usage?.prompt_tokens };
         } catch (error) {
             console.error("Error generating OpenAI embeddings:", error);
             throw error;
@@ -0,0 +1,207 @@
+/*
+ * Rebuilds the structure of PDF pages from the positioned text runs pdf.js returns: lines from
+ * runs sharing a baseline, paragraphs from line spacing, headings from font size, lists from
+ * bullet markers and tables from runs of aligned, widely spaced cells. Output is Markdown-style
+ * text, the same shape the other extractors produce for chunking.
+ */
+
+export interface PositionedText {
+    text: string;
+    x: number; // Left edge of the baseline, in PDF units (origin at the bottom left)
+    y: number;
+    width: number;
+    size: number; // Font size after the text matrix
+}
+
+interface Cell {
+    text: string;
+    x: number;
+    right: number;
+}
+
+interface Line {
+    cells: Cell[];
+    text: string;
+    x: number;
+    right: number;
+    y: number;
+    size: number;
+}
+
+// A gap this many font sizes wide separates table cells rather than words
+const CELL_GAP = 2;
+// Table cells are short; two columns of prose are not a table
+const MAX_CELL_CHARS = 60;
+// Text this much larger than the body is a heading
+const HEADING_RATIO = 1.15;
+const MAX_HEADING_CHARS = 120;
+// Lines this far apart (relative to the usual spacing) start a new paragraph
+const PARAGRAPH_GAP = 1.4;
+// Header and footer candidates are this many lines from the top and from the bottom of a page
+const MARGIN_LINES = 2;
+
+// Symbol bullets become "- "; numbered items keep their numbers
+const BULLET = /^[•◦▪▫●○■□‣⁃–—*-]\s+/;
+const NUMBERED = /^\(?(\d{1,2}|[a-z])[.)]\s+/;
+const PAGE_NUMBER = /^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i;
+
+// The value a quarter of the way up: wrapped lines are the tightest common spacing
+const lowerQuartile = (values: number[]): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 4)];
+};
+
+// Runs on one baseline, left to right; wide gaps split cells, small ones are word spaces
+const buildLine = (runs: PositionedText[]): Line => {
+    const sorted = [...runs].sort((a, b) => a.x - b.x);
+    const size = Math.max(...sorted.map(run => run.size));
+    const cells: Cell[] = [];
+    sorted.forEach(run => {
+        const cell = cells[cells.length - 1];
+        const gap = cell ? run.x - cell.right : Infinity;
+        if (!cell || gap > size * CELL_GAP) {
+            cells.push({ text: run.text, x: run.x, right: run.x + run.width });
+            return;
+        }
+        const needsSpace = gap > size * 0.15 && !/\s$/.test(cell.text) && !/^\s/.test(run.text);
+        cell.text += (needsSpace ? ' ' : '') + run.text;
+        cell.right = Math.max(cell.right, run.x + run.width);
+    });
+    cells.forEach(cell => cell.text = cell.text.replace(/\s+/g, ' ').trim());
+    const kept = cells.filter(cell => cell.text);
+    return {
+        cells: kept,
+        text: kept.map(cell => cell.text).join(' '),
+        x: kept[0]?.x ?? 0,
+        right: kept[kept.length - 1]?.right ?? 0,
+        y: sorted[0].y,
+        size
+    };
+};
+
+// Top to bottom; runs whose baselines are within half a font size share a line
+const groupLines = (runs: PositionedText[]): Line[] => {
+    const groups: PositionedText[][] = [];
+    [...runs].sort((a, b) => b.y - a.y || a.x - b.x).forEach(run => {
+        const group = groups[groups.length - 1];
+        if (group && Math.abs(group[0].y - run.y) <= Math.max(group[0].size, run.size) * 0.5) group.push(run);
+        else groups.push([run]);
+    });
+    return groups.map(buildLine).filter(line => line.text);
+};
+
+/**
+ * Drops running headers and footers: lines near the top or bottom of a page whose text, with
+ * numbers ignored, recurs on at least half of the pages, and bare page numbers. A page whose
+ * lines are all candidates keeps them, so one-line pages are never emptied.
+ */
+const removeMargins = (pages: Line[][]): Line[][] => {
+    const marginKey = (line: Line) => line.text.toLowerCase().replace(/\d+/g, '#');
+    const inMargin = (lines: Line[], i: number) => i < MARGIN_LINES || i >= lines.length - MARGIN_LINES;
+
+    const pageCounts = new Map<string, number>();
+    pages.forEach(lines => {
+        new Set(lines.filter((_, i) => inMargin(lines, i)).map(marginKey)).forEach(key => pageCounts.set(key, (pageCounts.get(key) || 0) + 1));
+    });
+    const minPages = Math.max(2, Math.ceil(pages.length / 2));
+
+    return pages.map(lines => {
+        if (lines.length <= MARGIN_LINES * 2) {
+            const kept = lines.filter(line => !PAGE_NUMBER.test(line.text) && (pages.length < 2 || (pageCounts.get(marginKey(line)) || 0) < minPages));
+            return kept.length > 0 ? kept : lines;
+        }
+        return lines.filter((line, i) => !inMargin(lines, i) || (!PAGE_NUMBER.test(line.text) && (pageCounts.get(marginKey(line)) || 0) < minPages));
+    });
+};
+
+const isTableRow = (line: Line) => line.cells.length >= 2 && line.cells.every(cell => cell.text.length <= MAX_CELL_CHARS);
+
+const toMarkdownTable = (rows: Line[]): string => {
+    const format = (line: Line) => `| ${line.cells.map(cell => cell.text.replace(/\|/g, '\\|')).join(' | ')} |`;
+    const [header, ...body] = rows;
+    return [format(header), `| ${header.cells.map(() => '---').join(' | ')} |`, ...body.map(format)].join('\n');
+};
+
+// Joins wrapped lines, mending words hyphenated across the break
+const joinLines = (lines: string[]): string => lines.reduce((text, line) =>
+    /[a-z]-$/.test(text) && /^[a-z]/.test(line) ? text.slice(0, -1) + line : `${text} ${line}`
+);
+
+/**
+ * Turns the positioned text of each page into Markdown-style page texts. Font sizes are
+ * compared across the whole document: the most common size is the body, and each larger size
+ * in use for short lines becomes a heading level, largest first.
+ */
+export const layoutPages = (pages: PositionedText[][]): string[] => {
+    const pageLines = removeMargins(pages.map(groupLines));
+    const lines = pageLines.flat();
+
+    // Body size by characters, so a few large headings can't outweigh the text
+    const charsBySize = new Map<number, number>();
+    lines.forEach(line => {
+        const size = Math.round(line.size * 2) / 2;
+        charsBySize.set(size, (charsBySize.get(size) || 0) + line.text.length);
+    });
+    const bodySize = [...charsBySize.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+    const isHeading = (line: Line) => line.size >= bodySize * HEADING_RATIO && line.text.length <= MAX_HEADING_CHARS && !isTableRow(line);
+    const headingSizes = [...new Set(lines.filter(isHeading).map(line => Math.round(line.size * 2) / 2))].sort((a, b) => b - a);
+    const headingLevel = (line: Line) => Math.min(6, headingSizes.indexOf(Math.round(line.size * 2) / 2) + 1);
+
+    return pageLines.map(page => {
+        const blocks: string[] = [];
+        // Distance between wrapped body lines on this page, to tell them from new paragraphs
+        const gaps = page.slice(1).flatMap((line, i) => isHeading(line) || isHeading(page[i]) ? [] : [page[i].y - line.y]);
+        const spacing = lowerQuartile(gaps.filter(gap => gap > 0)) || bodySize * 1.2;
+        let paragraph: string[] = [];
+        let previous: Line | null = null;
+
+        const flush = () => {
+            if (paragraph.length > 0) blocks.push(joinLines(paragraph));
+            paragraph = [];
+        };
+
+        for (let i = 0; i < page.length; i++) {
+            const line = page[i];
+
+            // Two or more aligned rows of short cells make a table
+            if (isTableRow(line)) {
+                let end = i;
+                while (end + 1 < page.length && isTableRow(page[end + 1]) && page[end + 1].cells.length === line.cells.length) end++;
+                if (end > i) {
+                    flush();
+                    blocks.push(toMarkdownTable(page.slice(i, end + 1)));
+                    i = end;
+                    previous = null;
+                    continue;
+                }
+            }
+
+            if (isHeading(line)) {
+                flush();
+                const level = headingLevel(line);
+                // A heading wrapped over several lines continues the one just written
+                const last = blocks[blocks.length - 1];
+                if (previous && isHeading(previous) && headingLevel(previous) === level && previous.y - line.y <= line.size * 1.6 && last?.startsWith('#')) {
+                    blocks[blocks.length - 1] = `${last} ${line.text}`;
+                } else {
+                    blocks.push(`${'#'.repeat(level)} ${line.text}`);
+                }
+                previous = line;
+                continue;
+            }
+
+            const bullet = line.text.match(BULLET);
+            const gap = previous ? previous.y - line.y : 0;
+            const startsBlock = !previous || isHeading(previous) || gap > spacing * PARAGRAPH_GAP || Boolean(bullet) || NUMBERED.test(line.text);
+            if (startsBlock) flush();
+            // Lines that follow an item without a gap are its wrapped continuation
+            paragraph.push(bullet ? `- ${line.text.slice(bullet[0].length)}` : line.text);
+            previous = line;
+        }
+        flush();
+
+        // Consecutive list items form one block, as in the other extractors
+        return blocks.join('\n\n').replace(/^(- .*)\n\n(?=- )/gm, '$1\n');
+    });
+};
@@ -0,0 +1,111 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { OcrInfo } from '../types';
+import { PAGE_BREAK } from './chunking';
+import { OffscreenCanvasFactory, createOcrEngine, hasImages } from './ocr';
+import { PositionedText, layoutPages } from './pdfLayout';
+
+// Fewer characters than this on a page that paints images means a scan without a text layer
+const MIN_TEXT_CHARS = 20;
+
+export interface PdfText {
+    text: string;
+    ocr?: OcrInfo;
+    unreadPages?: number[]; // Scanned pages OCR couldn't read, left without text
+}
+
+/**
+ * Extracts the text of a PDF, one page at a time, keeping each run's position and font size
+ * so paragraphs, headings, lists and tables can be rebuilt. Scanned pages are then rendered
+ * and read by OCR. Runs wherever pdfjs has been set up: the ingestion worker points it at an
+ * in-thread worker module.
+ */
+export const extractPdfText = async (
+    data: ArrayBuffer,
+    onProgress?: (stage: 'parsing' | 'ocr', done: number, total: number) => void
+): Promise<PdfText> => {
+    const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(data), CanvasFactory: OffscreenCanvasFactory }).promise;
+    const pages: PositionedText[][] = [];
+    const scanned: number[] = [];
+
+    try {
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const textContent = await page.getTextContent();
+            const runs: PositionedText[] = textContent.items
+                .filter((item: any) => item.str?.trim())
+                .map((item: any) => ({
+                    text: item.str,
+                    x: item.transform[4],
+                    y: item.transform[5],
+                    width: item.width,
+                    // The text matrix scales the font; its vertical scale is the rendered size
+                    size: Math.hypot(item.transform[2], item.transform[3]) || item.height
+                }));
+            pages.push(runs);
+            if (runs.reduce((chars, run) => chars + run.text.trim().length, 0) < MIN_TEXT_CHARS && await hasImages(page)) scanned.push(i);
+            page.cleanup();
+            onProgress?.('parsing', i, pdf.numPages);
+        }
+
+        const texts = layoutPages(pages);
+        const { ocr, unreadPages } = scanned.length > 0 ? await recognizePages(pdf, scanned, texts, onProgress) : {};
+        // Page breaks let chunks record the pages they came from, for citations
+        return { text: texts.map(text => text + '\n').join(PAGE_BREAK), ocr, unreadPages };
+    } finally {
+        await pdf.destroy();
+    }
+};
+
+/**
+ * Replaces the text of scanned pages with what OCR reads on them. The engine is only loaded
+ * here; if it can't be, or a page can't be read, those pages keep their text layer and are
+ * reported as unread, so the user knows the document is missing their text.
+ */
+const recognizePages = async (
+    pdf: pdfjsLib.PDFDocumentProxy,
+    scanned: number[],
+    texts: string[],
+    onProgress?: (stage: 'parsing' | 'ocr', done: number, total: number) => void
+): Promise<Pick<PdfText, 'ocr' | 'unreadPages'>> => {
+    onProgress?.('ocr', 0, scanned.length);
+    let engine;
+    try {
+        engine = await createOcrEngine();
+    } catch (error) {
+        console.warn('OCR engine unavailable, scanned pages keep no text:', error);
+        return { unreadPages: scanned };
+    }
+
+    const recognized: { page: number; confidence: number }[] = [];
+    const unreadPages: number[] = [];
+    try {
+        for (let i = 0; i < scanned.length; i++) {
+            const page = await pdf.getPage(scanned[i]);
+            try {
+                const { text, confidence } = await engine.recognize(page);
+                if (text) {
+                    texts[scanned[i] - 1] = text.replace(/\n{3,}/g, '\n\n');
+                    recognized.push({ page: scanned[i], confidence });
+                } else {
+                    unreadPages.push(scanned[i]);
+                }
+            } catch (error) {
+                console.warn(`OCR failed on page ${scanned[i]}, it keeps no text:`, error);
+                unreadPages.push(scanned[i]);
+            } finally {
+                page.cleanup();
+            }
+            onProgress?.('ocr', i + 1, scanned.length);
+        }
+    } finally {
+        await engine.terminate();
+    }
+
+    return {
+        ocr: recognized.length === 0 ? undefined : {
+            pages: recognized.map(({ page }) => page),
+            confidence: recognized.reduce((sum, { confidence }) => sum + confidence, 0) / recognized.length
+        },
+        unreadPages: unreadPages.length === 0 ? undefined : unreadPages
+    };
+};
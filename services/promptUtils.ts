@@ -1,6 +1,18 @@
 import { GenerationConfig, UploadedDocument } from "../types";
+import { STRUCTURED_OUTPUT_INSTRUCTION } from "./structuredOutput";
 
-export const getSystemInstruction = (personality: string): string => {
+// The user's past posts, as a reference for voice only: their topics and claims may be outdated
+const getStyleSection = (styleExamples: string[]): string => {
+  if (styleExamples.length === 0) return "";
+  return `
+  VOICE EXAMPLES:
+  - These are posts the user wrote before. Match their voice: sentence length, vocabulary, formatting, emoji and hashtag habits.
+  - Do not copy their content, claims or phrasing.
+${styleExamples.map((example, i) => `  --- PAST POST ${i + 1} ---\n${example}`).join("\n")}
+`;
+};
+
+export const getSystemInstruction = (personality: string, styleExamples: string[] = []): string => {
   return `You are a professional LinkedIn content writer and editor.
   Your task is to produce clear, engaging, and credible LinkedIn content that maintains a professional tone while remaining readable and compelling.
 
@@ -11,7 +23,7 @@ export const getSystemInstruction = (personality: string): string => {
 
   PERSONA & TONE:
   - Strictly adhere to: "${personality}".
-
+${getStyleSection(styleExamples)}
   INCREMENTAL UPDATES:
   - If a "CURRENT DRAFT" is provided, treat the request as a refinement.
   - Improve the existing text based on the "KEY ARGUMENTS / REFINEMENT INSTRUCTIONS".
@@ -25,6 +37,22 @@ export const getSystemInstruction = (personality: string): string => {
   `;
 };
 
+// Nudges each parallel candidate towards a different angle, so variants are not near-duplicates
+export const VARIANT_ANGLES = [
+  "a personal story or lesson learned",
+  "a contrarian or myth-busting take",
+  "a data-led insight built on concrete numbers",
+  "a practical, step-by-step how-to",
+  "a bold prediction about what comes next"
+];
+
+const getVariantInstruction = (config: GenerationConfig): string => {
+  if (!config.variant || config.variant.total < 2) return "";
+  const angle = VARIANT_ANGLES[(config.variant.index - 1) % VARIANT_ANGLES.length];
+  return `VARIANT ${config.variant.index} OF ${config.variant.total}:
+  Several candidates are written side by side. Frame this one as ${angle}, with its own opening hook.`;
+};
+
 export const getUserPrompt = (config: GenerationConfig, documentContext: string = ""): string => {
   return `
   TASK: ${config.currentDraft ? "Refine and update the existing" : "Write a new"} LinkedIn ${config.postType}.
@@ -37,6 +65,10 @@ export const getUserPrompt = (config: GenerationConfig, documentContext: string
   KEY ARGUMENTS / REFINEMENT INSTRUCTIONS:
   ${config.braindump || "Identify a clear, valuable angle using the Knowledge Corpus."}
 
+  ${getVariantInstruction(config)}
+
+  ${config.structured ? STRUCTURED_OUTPUT_INSTRUCTION : ""}
+
   ${documentContext}
   `;
 };
@@ -0,0 +1,225 @@
+import { Vendor } from "../types";
+
+export enum ProviderErrorKind {
+    AUTH = 'auth',
+    QUOTA = 'quota',
+    RATE_LIMIT = 'rate_limit',
+    CONTEXT_LENGTH = 'context_length',
+    SAFETY = 'safety',
+    NETWORK = 'network',
+    UNKNOWN = 'unknown'
+}
+
+/**
+ * Vendor-neutral error raised by the provider layer. Every SDK failure is sorted into a
+ * kind, so the UI can show one banner per kind instead of the raw vendor message.
+ */
+export class ProviderError extends Error {
+    constructor(
+        public kind: ProviderErrorKind,
+        message: string,
+        public vendor: Vendor,
+        public status?: number,
+        public retryAfterMs?: number,
+        public transient: boolean = false
+    ) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+}
+
+export interface RetryOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    // Lets callers refuse a retry, e.g. once a stream has already produced text
+    canRetry?: () => boolean;
+    onRetry?: (error: ProviderError, attempt: number, delayMs: number) => void;
+}
+
+const matches = (text: string, patterns: RegExp[]) => patterns.some(p => p.test(text));
+
+const AUTH_PATTERNS = [/api[ _-]?key/i, /unauthori[sz]ed/i, /authentication/i, /permission denied/i, /invalid x-api-key/i];
+const QUOTA_PATTERNS = [/quota/i, /billing/i, /credit balance/i, /insufficient_quota/i];
+// Bounded, so "generate", "generativelanguage" or a docs link to "rate-limits" don't count
+const RATE_LIMIT_PATTERNS = [/\brate[ _-]?limit(?:ed)?\b/i, /\bper min(?:ute)?\b/i];
+// OpenAI's insufficient_quota, and Gemini quota ids such as GenerateRequestsPerDayPerProjectPerModel-FreeTier
+const QUOTA_CODES = [/^insufficient_quota$/, /PerDay/];
+// OpenAI's rate_limit_exceeded, Anthropic's rate_limit_error and overloaded_error, Gemini's per-minute quota ids
+const RATE_LIMIT_CODES = [/^rate_limit/, /^overloaded_error$/, /PerMinute/];
+const CONTEXT_PATTERNS = [/context[ _]length/i, /maximum context/i, /too long/i, /token count/i, /too many tokens/i, /exceeds the maximum/i];
+const SAFETY_PATTERNS = [/safety/i, /content[ _]filter/i, /content management policy/i, /blocked/i];
+const NETWORK_PATTERNS = [/failed to fetch/i, /network/i, /connection/i, /ECONNREFUSED/i, /load failed/i, /timed? ?out/i];
+
+// OpenAI and Anthropic parse the JSON error body into `error`; Gemini puts it in the message
+const readErrorBody = (error: any): any => {
+    if (error?.error && typeof error.error === 'object') return error.error;
+    const json = String(error?.message || '').match(/\{[\s\S]*\}/);
+    if (!json) return undefined;
+    try {
+        return JSON.parse(json[0]);
+    } catch {
+        return undefined;
+    }
+};
+
+// The machine-readable codes of an error: SDK code and type, the body's type, code and status, and quota ids
+const readErrorCodes = (error: any): string[] => {
+    const body = readErrorBody(error);
+    const inner = body?.error ?? body;
+    const quotaIds = (Array.isArray(inner?.details) ? inner.details : [])
+        .flatMap((detail: any) => (Array.isArray(detail?.violations) ? detail.violations : []).map((v: any) => v?.quotaId));
+    return [error?.code, error?.type, body?.type, inner?.type, inner?.code, inner?.status, ...quotaIds]
+        .filter((code): code is string => typeof code === 'string');
+};
+
+const readHeader = (error: any, name: string): string | null => {
+    const headers = error?.headers;
+    if (!headers) return null;
+    if (typeof headers.get === 'function') return headers.get(name);
+    return headers[name] ?? null;
+};
+
+// Retry-After (seconds or HTTP date), OpenAI's retry-after-ms, or Gemini's RetryInfo in the body
+const parseRetryAfter = (error: any): number | undefined => {
+    const ms = readHeader(error, 'retry-after-ms');
+    if (ms && !isNaN(Number(ms))) return Number(ms);
+
+    const retryAfter = readHeader(error, 'retry-after');
+    if (retryAfter) {
+        if (!isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+        const date = Date.parse(retryAfter);
+        if (!isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    const retryDelay = String(error?.message || '').match(/retryDelay"?:\s*"?(\d+(?:\.\d+)?)s/);
+    if (retryDelay) return Number(retryDelay[1]) * 1000;
+
+    return undefined;
+};
+
+export const classifyError = (error: unknown, vendor: Vendor): ProviderError => {
+    if (error instanceof ProviderError) return error;
+
+    const err = error as any;
+    const status: number | undefined = typeof err?.status === 'number' ? err.status : undefined;
+    const message: string = err?.message || String(error) || 'Unknown error';
+    const retryAfterMs = parseRetryAfter(err);
+    const make = (kind: ProviderErrorKind, transient = false) =>
+        new ProviderError(kind, message, vendor, status, retryAfterMs, transient);
+
+    if (status === 401 || status === 403 || (status === 400 && matches(message, AUTH_PATTERNS))) {
+        return make(ProviderErrorKind.AUTH);
+    }
+    if (status === 429 || status === 529) {
+        // A hard quota will not clear up by waiting; a rate limit or overload will. The codes
+        // decide when the vendor sends them, the wording (minus links) only when it doesn't
+        const codes = readErrorCodes(err);
+        if (codes.some(code => matches(code, QUOTA_CODES))) return make(ProviderErrorKind.QUOTA);
+        if (codes.some(code => matches(code, RATE_LIMIT_CODES))) return make(ProviderErrorKind.RATE_LIMIT, true);
+        const prose = message.replace(/\S+:\/\/\S+/g, '');
+        return status === 429 && matches(prose, QUOTA_PATTERNS) && !matches(prose, RATE_LIMIT_PATTERNS)
+            ? make(ProviderErrorKind.QUOTA)
+            : make(ProviderErrorKind.RATE_LIMIT, true);
+    }
+    if (status === 402 || (matches(message, QUOTA_PATTERNS) && status !== undefined && status < 500)) {
+        return make(ProviderErrorKind.QUOTA);
+    }
+    if ((status === 400 || status === 413) && matches(message, CONTEXT_PATTERNS)) {
+        return make(ProviderErrorKind.CONTEXT_LENGTH);
+    }
+    if (matches(message, SAFETY_PATTERNS) && (status === undefined || status < 500)) {
+        return make(ProviderErrorKind.SAFETY);
+    }
+    if (status === undefined && (err?.name === 'TypeError' || /APIConnection/.test(err?.name || '') || matches(message, NETWORK_PATTERNS))) {
+        return make(ProviderErrorKind.NETWORK, true);
+    }
+    if (status === 408 || (status !== undefined && status >= 500)) {
+        return make(ProviderErrorKind.UNKNOWN, true);
+    }
+    return make(ProviderErrorKind.UNKNOWN);
+};
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+});
+
+/**
+ * Runs a provider call, retrying rate limits and transient failures with exponential
+ * backoff (and jitter), honouring the vendor's Retry-After when it sends one.
+ * Failures are rethrown as classified ProviderErrors; aborts are rethrown untouched.
+ */
+export const withRetry = async <T>(
+    operation: () => Promise<T>,
+    vendor: Vendor,
+    { retries = 3, baseDelayMs = 1000, maxDelayMs = 30000, signal, canRetry = () => true, onRetry }: RetryOptions = {}
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (signal?.aborted) throw error;
+
+            const providerError = classifyError(error, vendor);
+            if (!providerError.transient || attempt >= retries || !canRetry()) {
+                throw providerError;
+            }
+
+            const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.8 + Math.random() * 0.4);
+            const delayMs = Math.min(maxDelayMs, providerError.retryAfterMs ?? backoff);
+            console.warn(`${vendor} ${providerError.kind} error, retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 1}/${retries})`);
+            onRetry?.(providerError, attempt + 1, delayMs);
+            await sleep(delayMs, signal);
+        }
+    }
+};
+
+export const getErrorHelp = (error: ProviderError, baseUrl?: string): { title: string; fix: string } => {
+    const vendorName = error.vendor.toUpperCase();
+    switch (error.kind) {
+        case ProviderErrorKind.AUTH:
+            return {
+                title: 'API key rejected',
+                fix: error.vendor === Vendor.CUSTOM
+                    ? 'Check the key your server expects, or leave it empty if it needs none.'
+                    : `Check the ${vendorName} key in the top right settings. It may be mistyped, revoked, or lack access to this model.`
+            };
+        case ProviderErrorKind.QUOTA:
+            return {
+                title: 'Quota or billing limit reached',
+                fix: `Your ${vendorName} account is out of quota or credit. Check its billing page, or switch to another vendor or a cheaper model.`
+            };
+        case ProviderErrorKind.RATE_LIMIT:
+            return {
+                title: 'Rate limited',
+                fix: 'The request was retried automatically but the vendor is still throttling. Wait a minute, or pick a model with higher limits.'
+            };
+        case ProviderErrorKind.CONTEXT_LENGTH:
+            return {
+                title: 'Prompt too long for this model',
+                fix: 'Switch large documents to Smart Search, deactivate some documents, or pick a model with a bigger context window.'
+            };
+        case ProviderErrorKind.SAFETY:
+            return {
+                title: 'Blocked by safety filters',
+                fix: 'Rephrase the context or instructions, or remove the passage that may have triggered the filter.'
+            };
+        case ProviderErrorKind.NETWORK:
+            return {
+                title: 'Network error',
+                fix: error.vendor === Vendor.CUSTOM
+                    ? `Make sure the server at ${baseUrl || 'your endpoint'} is running and allows requests from this page (CORS).`
+                    : 'Check your internet connection, VPN, or any ad blocker that may block the vendor API.'
+            };
+        default:
+            return {
+                title: 'Unexpected vendor error',
+                fix: 'Try again. If it keeps happening, check the browser console for details.'
+            };
+    }
+};
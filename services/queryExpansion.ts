@@ -0,0 +1,71 @@
+import { GenerationConfig, QueryExpansion, TokenUsage } from "../types";
+import { NO_USAGE } from "./usageService";
+
+const SUB_QUERY_COUNT = 3;
+// A pasted post can be long; its opening is enough to say what it is about
+const MAX_CONTEXT_CHARS = 2000;
+
+const describePost = (config: GenerationConfig): string => {
+    return `KEY POINTS: ${config.braindump.trim() || "none"}
+CONTEXT: ${config.context.trim().slice(0, MAX_CONTEXT_CHARS) || "none"}`;
+};
+
+const getMultiQueryPrompt = (config: GenerationConfig): string => {
+    return `Write ${SUB_QUERY_COUNT} short search queries (3 to 8 words each) to find passages in the author's own documents that would help write the LinkedIn ${config.postType} below. Cover different aspects of it. Reply with one query per line, without numbering or quotes.
+
+${describePost(config)}`;
+};
+
+const getHydePrompt = (config: GenerationConfig): string => {
+    return `Write a short passage (3 to 4 sentences) that could appear in the author's own documents and would support the LinkedIn ${config.postType} below. State plausible facts plainly. It is only used to find similar passages, never shown to anyone.
+
+${describePost(config)}`;
+};
+
+// Tolerates the bullets, numbering and quotes models add despite being asked not to
+const parseQueries = (text: string): string[] => {
+    return text
+        .split("\n")
+        .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").replace(/^["']|["']$/g, "").trim())
+        .filter(Boolean)
+        .slice(0, SUB_QUERY_COUNT);
+};
+
+/**
+ * The queries Smart Search runs for a generation. Without expansion that is the key points,
+ * or the context when there are none. With it, both fields are searched along with
+ * model-written sub-queries (multi-query) or a hypothetical answer passage (HyDE).
+ * A failed expansion falls back to the plain fields rather than failing the generation;
+ * a stopped one is rethrown.
+ */
+export const buildRetrievalQueries = async (
+    config: GenerationConfig,
+    complete: (prompt: string) => Promise<{ text: string; usage: TokenUsage }>,
+    signal?: AbortSignal
+): Promise<{ queries: string[]; usage: TokenUsage }> => {
+    const expansion = config.queryExpansion || QueryExpansion.OFF;
+    const fields = [config.braindump, config.context.slice(0, MAX_CONTEXT_CHARS)].map(q => q.trim()).filter(Boolean);
+    if (expansion === QueryExpansion.OFF || fields.length === 0) {
+        return { queries: [config.braindump || config.context], usage: NO_USAGE };
+    }
+
+    let generated: string[] = [];
+    let usage = NO_USAGE;
+    try {
+        const result = await complete(expansion === QueryExpansion.HYDE ? getHydePrompt(config) : getMultiQueryPrompt(config));
+        generated = expansion === QueryExpansion.HYDE ? [result.text.trim()].filter(Boolean) : parseQueries(result.text);
+        usage = result.usage;
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn("Query expansion failed, searching with the inputs only:", error);
+    }
+
+    const seen = new Set<string>();
+    const queries = [...fields, ...generated].filter(query => {
+        const key = query.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+    return { queries, usage };
+};
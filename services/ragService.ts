@@ -1,89 +1,127 @@
-import * as pdfjsLib from 'pdfjs-dist';
-// @ts-ignore
-import pdfWorker from 'pdfjs-dist/build/pdf.worker.mjs?url';
-import { Chunk, KnowledgeMode, UploadedDocument, Vendor } from '../types';
+import { Chunk, ChunkOverrides, EmbeddingIndex, KnowledgeMode, RetrievalSettings, RetrievedChunk, UploadedDocument, Vendor } from '../types';
+import { EMBEDDING_STORE, KEYWORD_STORE, openDatabase } from './database';
+import { KeywordEntry, buildKeywordEntry, fuseRankings, rankBM25, termSimilarity } from './keywordIndex';
+import { Embeddings } from './llmProvider';
+import { estimateTokens } from './tokenBudget';
 
-// Set up pdfjs worker using local file via Vite
-pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorker;
+export const DEFAULT_RETRIEVAL: RetrievalSettings = { limit: 5, perDocumentLimit: 3, vectorWeight: 1, keywordWeight: 1, diversity: 0.3 };
 
-const DB_NAME = 'li_arch_rag_db';
-const STORE_NAME = 'embeddings';
-const DB_VERSION = 1;
+const chunkIndex = (id: string): number => Number(id.match(/-chunk-(\d+)$/)?.[1] ?? NaN);
 
-export class RagService {
-    private db: IDBDatabase | null = null;
+// Chunking repeats the end of a chunk at the start of the next; the longest such repeat is kept once
+const joinOverlapping = (first: string, second: string): string => {
+    for (let i = Math.max(0, first.length - second.length + 1); i < first.length; i++) {
+        if (i > 0 && !/\s/.test(first[i - 1])) continue;
+        const tail = first.slice(i);
+        if (second.startsWith(tail) && /\s/.test(second[tail.length])) {
+            return first + second.slice(tail.length);
+        }
+    }
+    return `${first}\n\n${second}`;
+};
 
-    private async getDB(): Promise<IDBDatabase> {
-        if (this.db) return this.db;
+const sameHeadings = (a: RetrievedChunk, b: RetrievedChunk): boolean => {
+    return (a.metadata?.headings || []).join("\n") === (b.metadata?.headings || []).join("\n");
+};
 
-        return new Promise((resolve, reject) => {
-            const request = indexedDB.open(DB_NAME, DB_VERSION);
-            request.onupgradeneeded = (event) => {
-                const db = (event.target as IDBOpenDBRequest).result;
-                if (!db.objectStoreNames.contains(STORE_NAME)) {
-                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-                    store.createIndex('documentId', 'documentId', { unique: false });
-                    store.createIndex('vendor', 'vendor', { unique: false });
-                }
-            };
-            request.onsuccess = () => {
-                this.db = request.result;
-                resolve(this.db);
-            };
-            request.onerror = () => reject(request.error);
-        });
-    }
+/**
+ * Merges retrieved chunks that are neighbours in the same document and section into one
+ * passage, so the prompt does not carry their overlap twice. A passage keeps the best rank,
+ * scores and pin of its members and lists their ids in `mergedIds`.
+ */
+const mergeAdjacentChunks = (chunks: RetrievedChunk[]): RetrievedChunk[] => {
+    const rank = new Map(chunks.map((chunk, i) => [chunk.id, i]));
+    const sorted = [...chunks]
+        .filter(chunk => !isNaN(chunkIndex(chunk.id)))
+        .sort((a, b) => a.documentId.localeCompare(b.documentId) || chunkIndex(a.id) - chunkIndex(b.id));
 
-    async parsePDF(base64: string): Promise<string> {
-        const binaryString = atob(base64);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
+    const runs: RetrievedChunk[][] = [];
+    sorted.forEach(chunk => {
+        const run = runs[runs.length - 1];
+        const last = run?.[run.length - 1];
+        if (last && last.documentId === chunk.documentId && chunkIndex(chunk.id) === chunkIndex(last.id) + 1 && sameHeadings(last, chunk)) {
+            run.push(chunk);
+        } else {
+            runs.push([chunk]);
         }
+    });
 
-        const loadingTask = pdfjsLib.getDocument({ data: bytes });
-        const pdf = await loadingTask.promise;
-        let fullText = '';
-
-        for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items
-                .map((item: any) => item.str)
-                .join(' ');
-            fullText += pageText + '\n';
-        }
+    const passages = new Map<string, RetrievedChunk>();
+    runs.filter(run => run.length > 1).forEach(run => {
+        const best = run.reduce((a, b) => rank.get(a.id)! <= rank.get(b.id)! ? a : b);
+        const maxOf = (key: 'vectorScore' | 'keywordScore') => {
+            const values = run.map(chunk => chunk[key]).filter((v): v is number => v !== undefined);
+            return values.length > 0 ? Math.max(...values) : undefined;
+        };
+        const first = run[0].metadata;
+        const last = run[run.length - 1].metadata;
+        passages.set(best.id, {
+            ...best,
+            text: run.map(chunk => chunk.text).reduce(joinOverlapping),
+            metadata: {
+                ...first,
+                ...(first?.pageStart !== undefined ? { pageStart: first.pageStart, pageEnd: last?.pageEnd ?? first.pageEnd } : {})
+            },
+            score: Math.max(...run.map(chunk => chunk.score)),
+            vectorScore: maxOf('vectorScore'),
+            keywordScore: maxOf('keywordScore'),
+            pinned: run.some(chunk => chunk.pinned) || undefined,
+            mergedIds: run.map(chunk => chunk.id)
+        });
+        run.filter(chunk => chunk !== best).forEach(chunk => rank.delete(chunk.id));
+    });
+
+    return chunks
+        .filter(chunk => rank.has(chunk.id))
+        .map(chunk => passages.get(chunk.id) || chunk);
+};
+
+export interface EmbeddingEntry extends Chunk {
+    vendor: Vendor;
+    model: string;
+    embedding: number[];
+}
+
+export interface RetrievalRequest {
+    queries: string[]; // Each one is ranked separately, then all rankings are fused
+    documentIds: string[];
+    vendor: Vendor; // Vendor and embedding model whose embeddings are searched
+    model: string;
+    settings?: RetrievalSettings;
+    // Embeds the query for the vector side; left out when no embeddings are available
+    embed?: (texts: string[]) => Promise<Embeddings>;
+    overrides?: ChunkOverrides;
+    signal?: AbortSignal; // A stopped embedding call is rethrown rather than searched around
+}
 
-        return fullText;
+export class RagService {
+    private getDB(): Promise<IDBDatabase> {
+        return openDatabase();
     }
 
-    chunkText(text: string, documentId: string, chunkSize: number = 1000, chunkOverlap: number = 200): Chunk[] {
-        const chunks: Chunk[] = [];
-        let start = 0;
-
-        while (start < text.length) {
-            const end = Math.min(start + chunkSize, text.length);
-            const chunkText = text.substring(start, end);
-            chunks.push({
-                id: `${documentId}-chunk-${chunks.length}`,
-                documentId,
-                text: chunkText
-            });
-            start += (chunkSize - chunkOverlap);
-        }
+    // The keyword side needs no vendor, so it is written as soon as a document is chunked
+    async saveKeywordEntries(chunks: Chunk[]) {
+        const db = await this.getDB();
+        const tx = db.transaction(KEYWORD_STORE, 'readwrite');
+        const keywords = tx.objectStore(KEYWORD_STORE);
+        chunks.forEach(chunk => keywords.put(buildKeywordEntry(chunk)));
 
-        return chunks;
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve(true);
+            tx.onerror = () => reject(tx.error);
+        });
     }
 
-    async saveChunks(chunks: Chunk[], vendor: Vendor, embeddings: number[][]) {
+    async saveEmbeddings(chunks: Chunk[], vendor: Vendor, model: string, embeddings: number[][]) {
         const db = await this.getDB();
-        const tx = db.transaction(STORE_NAME, 'readwrite');
-        const store = tx.objectStore(STORE_NAME);
+        const tx = db.transaction(EMBEDDING_STORE, 'readwrite');
+        const store = tx.objectStore(EMBEDDING_STORE);
 
         for (let i = 0; i < chunks.length; i++) {
             store.put({
                 ...chunks[i],
                 vendor,
+                model,
                 embedding: embeddings[i]
             });
         }
@@ -94,25 +132,186 @@ export class RagService {
         });
     }
 
-    async searchSimilar(queryEmbedding: number[], vendor: Vendor, limit: number = 5): Promise<Chunk[]> {
+    // Chunks of a document that already have embeddings from the vendor and model, for resuming an index
+    async getIndexedChunks(documentId: string, vendor: Vendor, model: string): Promise<{ ids: Set<string>; dimensions: number | null }> {
+        const entries = (await this.getEntriesForDocuments<EmbeddingEntry>(EMBEDDING_STORE, [documentId]))
+            .filter(entry => entry.vendor === vendor && entry.model === model);
+        return { ids: new Set(entries.map(entry => entry.id)), dimensions: entries[0]?.embedding.length ?? null };
+    }
+
+    // Which vendors and models each document has embeddings from, read back from the stored chunks
+    async getEmbeddingIndexes(documentIds: string[]): Promise<Map<string, EmbeddingIndex[]>> {
+        const indexes = new Map<string, EmbeddingIndex[]>(documentIds.map(id => [id, []]));
+        (await this.getEntriesForDocuments<EmbeddingEntry>(EMBEDDING_STORE, documentIds)).forEach(entry => {
+            const list = indexes.get(entry.documentId)!;
+            const index = list.find(i => i.vendor === entry.vendor && i.model === entry.model);
+            if (index) index.chunkCount++;
+            else list.push({ vendor: entry.vendor, model: entry.model, dimensions: entry.embedding.length, chunkCount: 1 });
+        });
+        return indexes;
+    }
+
+    // Everything indexed for the documents, for a knowledge base bundle
+    async exportDocumentData(documentIds: string[]): Promise<{ chunks: Chunk[]; embeddings: EmbeddingEntry[] }> {
+        const keywords = await this.getEntriesForDocuments<KeywordEntry>(KEYWORD_STORE, documentIds);
+        return {
+            chunks: keywords.map(({ id, documentId, text, metadata }) => ({ id, documentId, text, metadata })),
+            embeddings: await this.getEntriesForDocuments<EmbeddingEntry>(EMBEDDING_STORE, documentIds)
+        };
+    }
+
+    // Stores chunks and embeddings from a bundle as they are, without calling any vendor
+    async importDocumentData(chunks: Chunk[], embeddings: EmbeddingEntry[]) {
+        const db = await this.getDB();
+        const tx = db.transaction([EMBEDDING_STORE, KEYWORD_STORE], 'readwrite');
+        const keywords = tx.objectStore(KEYWORD_STORE);
+        const store = tx.objectStore(EMBEDDING_STORE);
+        chunks.forEach(chunk => keywords.put(buildKeywordEntry(chunk)));
+        embeddings.forEach(entry => store.put(entry));
+
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve(true);
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    // Entries of the given documents only; inactive and CONTEXT documents are never passed in
+    private async getEntriesForDocuments<T>(storeName: string, documentIds: string[]): Promise<T[]> {
         const db = await this.getDB();
-        const tx = db.transaction(STORE_NAME, 'readonly');
-        const store = tx.objectStore(STORE_NAME);
-        const index = store.index('vendor');
-        const request = index.getAll(vendor);
+        const tx = db.transaction(storeName, 'readonly');
+        const index = tx.objectStore(storeName).index('documentId');
 
-        const allChunks = await new Promise<any[]>((resolve, reject) => {
+        const perDocument = await Promise.all(documentIds.map(documentId => new Promise<T[]>((resolve, reject) => {
+            const request = index.getAll(documentId);
             request.onsuccess = () => resolve(request.result);
             request.onerror = () => reject(request.error);
-        });
+        })));
+
+        return perDocument.flat();
+    }
+
+    /**
+     * Hybrid Smart Search: cosine similarity over the vendor's embeddings and BM25 over the
+     * local keyword index, fused with reciprocal rank fusion. Either side can be weighted or
+     * turned off; the keyword side needs no network. With several queries, each adds its own
+     * rankings, so a chunk found by any of them competes once. Excluded chunks are dropped,
+     * pinned ones go first, and the rest are picked with Maximal Marginal Relevance under the
+     * per-document quota. Neighbouring picks from one document come back merged as one passage.
+     * When the queries can't be embedded (offline, no quota), the keyword side ranks alone and
+     * the reason is returned, so the caller can say the search was keyword-only.
+     */
+    async retrieve({ queries, documentIds, vendor, model, settings = DEFAULT_RETRIEVAL, embed, overrides, signal }: RetrievalRequest): Promise<{
+        chunks: RetrievedChunk[];
+        embeddingTokens: number;
+        vectorSearchSkipped?: string;
+    }> {
+        const excluded = new Set(overrides?.excluded || []);
+        const byId = new Map<string, RetrievedChunk>();
+        const rankings: { ids: string[]; weight: number }[] = [];
+        let embeddingTokens = 0;
+        let vectorSearchSkipped: string | undefined;
+
+        let queryVectors: Embeddings | null = null;
+        if (settings.vectorWeight > 0 && embed) {
+            try {
+                queryVectors = await embed(queries);
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                console.warn('Query embedding failed, ranking by keywords only:', error);
+                vectorSearchSkipped = error instanceof Error ? error.message : String(error);
+            }
+        }
+        // Keyword-only settings still rank something when the semantic side was the whole search
+        const keywordWeight = vectorSearchSkipped && settings.keywordWeight === 0 ? 1 : settings.keywordWeight;
+
+        if (queryVectors) {
+            const { vectors: queryEmbeddings, tokens } = queryVectors;
+            // Estimated for the vendors whose embeddings API reports no usage
+            embeddingTokens = tokens ?? queries.reduce((sum, query) => sum + estimateTokens(query), 0);
+            const dimensions = queryEmbeddings[0]?.length;
+            const entries = (await this.getEntriesForDocuments<EmbeddingEntry>(EMBEDDING_STORE, documentIds))
+                .filter(chunk => chunk.vendor === vendor && chunk.model === model);
+            // Vectors of another size can't be compared; the model likely changed under the same name
+            const embedded = entries.filter(chunk => chunk.embedding.length === dimensions && !excluded.has(chunk.id));
+            const mismatched = entries.filter(chunk => chunk.embedding.length !== dimensions).length;
+            if (mismatched > 0) {
+                console.warn(`Skipped ${mismatched} chunks embedded with ${dimensions ? 'a different size than' : 'no'} ${model} query vectors; re-index them.`);
+            }
+            queryEmbeddings.forEach(queryEmbedding => {
+                const scored = embedded
+                    .map(chunk => ({ chunk, score: this.cosineSimilarity(queryEmbedding, chunk.embedding) }))
+                    .sort((a, b) => b.score - a.score);
+                scored.forEach(({ chunk, score }) => {
+                    const existing = byId.get(chunk.id);
+                    if (existing) existing.vectorScore = Math.max(existing.vectorScore ?? score, score);
+                    else byId.set(chunk.id, { id: chunk.id, documentId: chunk.documentId, text: chunk.text, metadata: chunk.metadata, score: 0, vectorScore: score });
+                });
+                rankings.push({ ids: scored.map(s => s.chunk.id), weight: settings.vectorWeight });
+            });
+        }
+
+        // Loaded whenever something needs it: BM25, the terms MMR compares, or the text of pinned chunks
+        const entries = keywordWeight > 0 || settings.diversity > 0 || overrides?.pinned.length
+            ? await this.getEntriesForDocuments<KeywordEntry>(KEYWORD_STORE, documentIds)
+            : [];
+
+        if (keywordWeight > 0) {
+            const searchable = entries.filter(entry => !excluded.has(entry.id));
+            queries.forEach(query => {
+                const ranked = rankBM25(query, searchable);
+                ranked.forEach(({ entry, score }) => {
+                    const chunk = byId.get(entry.id);
+                    if (chunk) chunk.keywordScore = Math.max(chunk.keywordScore ?? score, score);
+                    else byId.set(entry.id, { id: entry.id, documentId: entry.documentId, text: entry.text, metadata: entry.metadata, score: 0, keywordScore: score });
+                });
+                rankings.push({ ids: ranked.map(r => r.entry.id), weight: keywordWeight });
+            });
+        }
 
-        const scored = allChunks.map(chunk => ({
-            chunk,
-            score: this.cosineSimilarity(queryEmbedding, chunk.embedding)
-        }));
+        const fused = fuseRankings(rankings);
+        fused.forEach(({ id, score }) => { byId.get(id)!.score = score; });
 
-        scored.sort((a, b) => b.score - a.score);
-        return scored.slice(0, limit).map(s => s.chunk);
+        // Pins from other documents, or from chunks gone since a re-index, are skipped
+        const pinned = new Set((overrides?.pinned || []).filter(id => !excluded.has(id)));
+        const chunks: RetrievedChunk[] = entries
+            .filter(entry => pinned.has(entry.id))
+            .map(entry => byId.get(entry.id) || { id: entry.id, documentId: entry.documentId, text: entry.text, metadata: entry.metadata, score: 0 })
+            .map(chunk => ({ ...chunk, pinned: true }));
+
+        /*
+         * MMR: each pick maximises (1 - diversity) * relevance - diversity * redundancy, where
+         * relevance is the fused score scaled to the best one and redundancy the highest term
+         * similarity to anything already picked, pins included. Ties keep the fused order, so
+         * a diversity of 0 walks straight down the ranking.
+         */
+        const diversity = Math.min(1, Math.max(0, settings.diversity || 0));
+        const terms = new Map(entries.map(entry => [entry.id, entry.terms]));
+        const termsOf = (chunk: RetrievedChunk) => terms.get(chunk.id) || buildKeywordEntry(chunk).terms;
+        const topScore = fused[0]?.score || 1;
+        const selectedTerms = chunks.map(termsOf);
+        const taken = new Map<string, number>();
+        let candidates = fused.filter(({ id }) => !pinned.has(id)).map(({ id }) => byId.get(id)!);
+
+        while (chunks.length < settings.limit) {
+            candidates = candidates.filter(chunk => (taken.get(chunk.documentId) || 0) < settings.perDocumentLimit);
+            if (candidates.length === 0) break;
+            let best = 0;
+            let bestValue = -Infinity;
+            candidates.forEach((chunk, i) => {
+                if (diversity === 0 && i > 0) return;
+                const redundancy = diversity > 0 ? Math.max(0, ...selectedTerms.map(t => termSimilarity(termsOf(chunk), t))) : 0;
+                const value = (1 - diversity) * chunk.score / topScore - diversity * redundancy;
+                if (value > bestValue) {
+                    best = i;
+                    bestValue = value;
+                }
+            });
+            const [chunk] = candidates.splice(best, 1);
+            taken.set(chunk.documentId, (taken.get(chunk.documentId) || 0) + 1);
+            selectedTerms.push(termsOf(chunk));
+            chunks.push(chunk);
+        }
+        return { chunks: mergeAdjacentChunks(chunks), embeddingTokens, vectorSearchSkipped };
     }
 
     private cosineSimilarity(vecA: number[], vecB: number[]): number {
@@ -129,15 +328,29 @@ export class RagService {
 
     async deleteDocumentData(documentId: string) {
         const db = await this.getDB();
-        const tx = db.transaction(STORE_NAME, 'readwrite');
-        const store = tx.objectStore(STORE_NAME);
-        const index = store.index('documentId');
-        const request = index.getAllKeys(documentId);
-
-        request.onsuccess = () => {
-            const keys = request.result;
-            keys.forEach(key => store.delete(key));
-        };
+        const tx = db.transaction([EMBEDDING_STORE, KEYWORD_STORE], 'readwrite');
+
+        [EMBEDDING_STORE, KEYWORD_STORE].forEach(storeName => {
+            const store = tx.objectStore(storeName);
+            const request = store.index('documentId').getAllKeys(documentId);
+            request.onsuccess = () => {
+                const keys = request.result;
+                keys.forEach(key => store.delete(key));
+            };
+        });
+
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve(true);
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    // Drops the whole index, for "clear all"
+    async clear() {
+        const db = await this.getDB();
+        const tx = db.transaction([EMBEDDING_STORE, KEYWORD_STORE], 'readwrite');
+        tx.objectStore(EMBEDDING_STORE).clear();
+        tx.objectStore(KEYWORD_STORE).clear();
 
         return new Promise((resolve, reject) => {
             tx.oncomplete = () => resolve(true);
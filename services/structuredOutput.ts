@@ -0,0 +1,107 @@
+import { StructuredPost } from "../types";
+import { GeneratedResponse } from "./llmProvider";
+
+/**
+ * JSON schema for structured mode. Written in the subset both Gemini (responseJsonSchema)
+ * and OpenAI strict mode accept: every property required, no additional properties.
+ */
+export const STRUCTURED_POST_SCHEMA = {
+    type: "object",
+    properties: {
+        body: {
+            type: "string",
+            description: "The post without its opening hook, call to action or hashtags."
+        },
+        hooks: {
+            type: "array",
+            items: { type: "string" },
+            minItems: 3,
+            maxItems: 5,
+            description: "3 to 5 alternative opening lines, best first."
+        },
+        hashtags: {
+            type: "array",
+            items: { type: "string" },
+            description: "Suggested hashtags, each starting with #."
+        },
+        callToAction: {
+            type: "string",
+            description: "One closing line inviting the reader to act or reply."
+        },
+        summary: {
+            type: "string",
+            description: "A one-line summary of the post."
+        }
+    },
+    required: ["body", "hooks", "hashtags", "callToAction", "summary"],
+    additionalProperties: false
+};
+
+export const STRUCTURED_OUTPUT_INSTRUCTION = `OUTPUT FORMAT (STRUCTURED):
+  Reply with a single JSON object and nothing else, with these fields:
+  - "body": the post without its opening hook, call to action or hashtags
+  - "hooks": 3 to 5 alternative opening lines, best first
+  - "hashtags": suggested hashtags, each starting with #
+  - "callToAction": one closing line inviting the reader to act or reply
+  - "summary": a one-line summary of the post`;
+
+const asStrings = (value: unknown): string[] => {
+    return Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+};
+
+/**
+ * Parses the model's JSON reply. Vendors without a schema mode (or small local models)
+ * may wrap it in a code fence or add prose, so the outermost object is extracted first.
+ */
+export const parseStructuredPost = (text: string): StructuredPost => {
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start === -1 || end <= start) {
+        throw new Error("The model did not return the structured JSON post.");
+    }
+
+    const raw = JSON.parse(text.slice(start, end + 1));
+    return {
+        body: String(raw.body ?? "").trim(),
+        hooks: asStrings(raw.hooks),
+        hashtags: asStrings(raw.hashtags).map(tag => tag.startsWith("#") ? tag : `#${tag.replace(/\s+/g, "")}`),
+        callToAction: String(raw.callToAction ?? "").trim(),
+        summary: String(raw.summary ?? "").trim()
+    };
+};
+
+// Which pieces end up in the post: one hook, the kept hashtags, and the CTA if included
+export interface StructuredSelection {
+    hookIndex: number;
+    hashtags: string[];
+    includeCallToAction: boolean;
+}
+
+export interface StructuredDraft {
+    post: StructuredPost;
+    selection: StructuredSelection;
+}
+
+export const getDefaultSelection = (post: StructuredPost): StructuredSelection => ({
+    hookIndex: 0,
+    hashtags: post.hashtags,
+    includeCallToAction: !!post.callToAction
+});
+
+export const assemblePost = (post: StructuredPost, selection: StructuredSelection = getDefaultSelection(post)): string => {
+    return [
+        post.hooks[selection.hookIndex],
+        post.body,
+        selection.includeCallToAction ? post.callToAction : "",
+        selection.hashtags.join(" ")
+    ]
+        .map(part => part?.trim())
+        .filter(Boolean)
+        .join("\n\n");
+};
+
+// Shared by every provider: parses the JSON reply and swaps in the assembled post as the text
+export const toStructuredResponse = (response: GeneratedResponse): GeneratedResponse => {
+    const structured = parseStructuredPost(response.text);
+    return { ...response, text: assemblePost(structured), structured };
+};
@@ -0,0 +1,136 @@
+import { Chunk, GenerationConfig, UploadedDocument } from "../types";
+import { getUserPrompt } from "./promptUtils";
+
+// Rough but vendor-neutral: English prose averages about four characters per token
+const CHARS_PER_TOKEN = 4;
+// Room kept free for the reply when the user has not set a max output
+const DEFAULT_OUTPUT_RESERVE = 4096;
+// Below this, an excerpt is too short to be useful and the document is dropped instead
+const MIN_EXCERPT_TOKENS = 500;
+
+export interface BudgetBreakdown {
+    system: number;
+    documents: number;
+    chunks: number;
+    draft: number;
+    instructions: number;
+}
+
+export interface BudgetReport {
+    contextWindow: number;
+    reservedOutput: number;
+    breakdown: BudgetBreakdown; // After trimming
+    requestedTotal: number; // Before trimming
+    total: number;
+    exceeded: boolean;
+    condensed: string[]; // Names of documents cut down to an excerpt
+    dropped: string[]; // Names of documents left out entirely
+    droppedChunks: number;
+}
+
+export interface BudgetInput {
+    systemInstruction: string;
+    config: GenerationConfig;
+    contextDocs: UploadedDocument[]; // In priority order, highest first
+    chunks: Chunk[]; // In rank order, best first
+    contextWindow: number;
+}
+
+export const estimateTokens = (text: string | undefined): number => {
+    return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+};
+
+// Documents without a text layer are sent as inline data; base64 is 4/3 the size of the bytes.
+// Until a generation loads the contents, the text length or file size stands in.
+const estimateDocumentTokens = (doc: UploadedDocument): number => {
+    if (doc.parsedText) return estimateTokens(doc.parsedText);
+    if (doc.data) return Math.ceil((doc.data.length * 0.75) / CHARS_PER_TOKEN);
+    return Math.ceil((doc.textLength || doc.size) / CHARS_PER_TOKEN);
+};
+
+const condenseText = (text: string, maxTokens: number): string => {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    const excerpt = text.slice(0, maxChars);
+    // Prefer ending on a paragraph, then a sentence, rather than mid-word
+    const cut = Math.max(excerpt.lastIndexOf('\n\n'), excerpt.lastIndexOf('. ') + 1);
+    const trimmed = cut > maxChars / 2 ? excerpt.slice(0, cut) : excerpt;
+    return `${trimmed.trim()}\n[... condensed to fit the model's context window]`;
+};
+
+/**
+ * Fits the prompt into the model's context window. System prompt, instructions and the
+ * current draft are never trimmed; retrieved chunks come next, then CONTEXT documents
+ * in list order. Lower-priority documents are condensed to an excerpt or dropped.
+ */
+export const fitToBudget = ({ systemInstruction, config, contextDocs, chunks, contextWindow }: BudgetInput): {
+    contextDocs: UploadedDocument[];
+    chunks: Chunk[];
+    report: BudgetReport;
+} => {
+    const reservedOutput = config.maxOutputTokens ?? DEFAULT_OUTPUT_RESERVE;
+    const system = estimateTokens(systemInstruction);
+    const draft = estimateTokens(config.currentDraft);
+    const instructions = estimateTokens(getUserPrompt({ ...config, currentDraft: undefined }));
+
+    const requestedDocuments = contextDocs.reduce((sum, doc) => sum + estimateDocumentTokens(doc), 0);
+    const requestedChunks = chunks.reduce((sum, chunk) => sum + estimateTokens(chunk.text), 0);
+    const requestedTotal = system + draft + instructions + requestedDocuments + requestedChunks;
+
+    let available = contextWindow - reservedOutput - system - draft - instructions;
+
+    const keptChunks: Chunk[] = [];
+    chunks.forEach(chunk => {
+        const tokens = estimateTokens(chunk.text);
+        if (tokens <= available) {
+            keptChunks.push(chunk);
+            available -= tokens;
+        }
+    });
+
+    const keptDocs: UploadedDocument[] = [];
+    const condensed: string[] = [];
+    const dropped: string[] = [];
+    contextDocs.forEach(doc => {
+        const tokens = estimateDocumentTokens(doc);
+        if (tokens <= available) {
+            keptDocs.push(doc);
+            available -= tokens;
+        } else if (doc.parsedText && available >= MIN_EXCERPT_TOKENS) {
+            const parsedText = condenseText(doc.parsedText, available);
+            keptDocs.push({ ...doc, parsedText });
+            condensed.push(doc.name);
+            available -= estimateTokens(parsedText);
+        } else if (!doc.parsedText && !doc.data && doc.textLength && available >= MIN_EXCERPT_TOKENS) {
+            // Contents not loaded (pre-flight estimate): the excerpt would fill what is left
+            keptDocs.push({ ...doc, textLength: available * CHARS_PER_TOKEN });
+            condensed.push(doc.name);
+            available = 0;
+        } else {
+            dropped.push(doc.name);
+        }
+    });
+
+    const breakdown: BudgetBreakdown = {
+        system,
+        documents: keptDocs.reduce((sum, doc) => sum + estimateDocumentTokens(doc), 0),
+        chunks: keptChunks.reduce((sum, chunk) => sum + estimateTokens(chunk.text), 0),
+        draft,
+        instructions
+    };
+
+    return {
+        contextDocs: keptDocs,
+        chunks: keptChunks,
+        report: {
+            contextWindow,
+            reservedOutput,
+            breakdown,
+            requestedTotal,
+            total: Object.values(breakdown).reduce((sum, v) => sum + v, 0),
+            exceeded: requestedTotal + reservedOutput > contextWindow,
+            condensed,
+            dropped,
+            droppedChunks: chunks.length - keptChunks.length
+        }
+    };
+};
@@ -0,0 +1,125 @@
+import { TokenUsage, Vendor } from '../types';
+
+const DB_NAME = 'li_arch_usage_db';
+const STORE_NAME = 'ledger';
+const DB_VERSION = 1;
+
+export interface UsageEntry extends TokenUsage {
+    id: string;
+    timestamp: number;
+    vendor: Vendor;
+    model: string;
+    embeddingModel?: string; // Prices embeddingTokens, which may come from another vendor
+    kind: 'generation' | 'indexing' | 'search'; // search: query expansion and query embeddings, run apart from a draft
+}
+
+export const NO_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0, embeddingTokens: 0 };
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    embeddingTokens: a.embeddingTokens + b.embeddingTokens
+});
+
+// USD per million tokens. `model` matches any model name containing it; the longest match wins.
+export interface PriceRow {
+    model: string;
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export const DEFAULT_PRICES: PriceRow[] = [
+    { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10 },
+    { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    { model: 'gemini-2.0-flash', inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    { model: 'text-embedding-004', inputPerMillion: 0, outputPerMillion: 0 },
+    { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+    { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    { model: 'gpt-4.1', inputPerMillion: 2, outputPerMillion: 8 },
+    { model: 'gpt-5', inputPerMillion: 1.25, outputPerMillion: 10 },
+    { model: 'text-embedding-3-small', inputPerMillion: 0.02, outputPerMillion: 0 },
+    { model: 'claude-sonnet-4', inputPerMillion: 3, outputPerMillion: 15 },
+    { model: 'claude-opus-4', inputPerMillion: 15, outputPerMillion: 75 },
+    { model: 'claude-haiku-4', inputPerMillion: 1, outputPerMillion: 5 }
+];
+
+export const findPrice = (prices: PriceRow[], model: string | undefined): PriceRow | undefined => {
+    if (!model) return undefined;
+    const name = model.replace('models/', '');
+    return prices
+        .filter(row => row.model && name.includes(row.model))
+        .sort((a, b) => b.model.length - a.model.length)[0];
+};
+
+export const getEntryCost = (entry: UsageEntry, prices: PriceRow[]): number => {
+    const price = findPrice(prices, entry.model);
+    const embeddingPrice = findPrice(prices, entry.embeddingModel || entry.model);
+    return (
+        entry.inputTokens * (price?.inputPerMillion ?? 0) +
+        entry.outputTokens * (price?.outputPerMillion ?? 0) +
+        entry.embeddingTokens * (embeddingPrice?.inputPerMillion ?? 0)
+    ) / 1_000_000;
+};
+
+export class UsageService {
+    private db: IDBDatabase | null = null;
+
+    private async getDB(): Promise<IDBDatabase> {
+        if (this.db) return this.db;
+
+        return new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = (event.target as IDBOpenDBRequest).result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                    store.createIndex('timestamp', 'timestamp', { unique: false });
+                }
+            };
+            request.onsuccess = () => {
+                this.db = request.result;
+                resolve(this.db);
+            };
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async record(entry: Omit<UsageEntry, 'id' | 'timestamp'>) {
+        const db = await this.getDB();
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        tx.objectStore(STORE_NAME).put({
+            ...entry,
+            id: crypto.randomUUID(),
+            timestamp: Date.now()
+        });
+
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve(true);
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    async getEntries(since: number = 0): Promise<UsageEntry[]> {
+        const db = await this.getDB();
+        const tx = db.transaction(STORE_NAME, 'readonly');
+        const request = tx.objectStore(STORE_NAME).index('timestamp').getAll(IDBKeyRange.lowerBound(since));
+
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async clear() {
+        const db = await this.getDB();
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        tx.objectStore(STORE_NAME).clear();
+
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve(true);
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+}
+
+export const usageService = new UsageService();
@@ -0,0 +1,73 @@
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+interface ZipEntry {
+    method: number;
+    compressedSize: number;
+    headerOffset: number;
+}
+
+export interface ZipArchive {
+    paths: string[];
+    has: (path: string) => boolean;
+    readText: (path: string) => Promise<string>;
+}
+
+const decoder = new TextDecoder();
+
+/**
+ * Minimal ZIP reader for the containers of DOCX and EPUB files: reads the central directory,
+ * then inflates single entries on demand with the browser's DecompressionStream, so no
+ * archive library is bundled. ZIP64 and encrypted archives are not supported.
+ */
+export const openZip = (data: ArrayBuffer): ZipArchive => {
+    const view = new DataView(data);
+    const bytes = new Uint8Array(data);
+
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+    let end = -1;
+    for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+            end = i;
+            break;
+        }
+    }
+    if (end < 0) throw new Error('Not a ZIP archive.');
+
+    const entries = new Map<string, ZipEntry>();
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    if (offset === 0xffffffff) throw new Error('ZIP64 archives are not supported.');
+
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== DIRECTORY_ENTRY) throw new Error('Corrupt ZIP directory.');
+        const nameLength = view.getUint16(offset + 28, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        entries.set(name, {
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            headerOffset: view.getUint32(offset + 42, true)
+        });
+        offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+    }
+
+    const readText = async (path: string): Promise<string> => {
+        const entry = entries.get(path);
+        if (!entry) throw new Error(`Missing ${path} in the archive.`);
+        const header = entry.headerOffset;
+        if (view.getUint32(header, true) !== LOCAL_HEADER) throw new Error(`Corrupt ZIP entry ${path}.`);
+        // Local extra fields may differ from the directory's, so the data offset comes from here
+        const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+        const content = bytes.subarray(start, start + entry.compressedSize);
+
+        if (entry.method === STORED) return decoder.decode(content);
+        if (entry.method !== DEFLATED) throw new Error(`Unsupported compression in ${path}.`);
+        const stream = new Blob([content]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        return new Response(stream).text();
+    };
+
+    return { paths: [...entries.keys()], has: path => entries.has(path), readText };
+};
@@ -1,6 +1,14 @@
 export enum Vendor {
   GEMINI = 'gemini',
-  OPENAI = 'openai'
+  OPENAI = 'openai',
+  ANTHROPIC = 'anthropic',
+  CUSTOM = 'custom'
+}
+
+export interface CustomEndpointConfig {
+  baseUrl: string; // OpenAI-compatible root, e.g. http://localhost:11434/v1
+  embeddingModel: string;
+  contextWindow: number; // In tokens, as configured on the server
 }
 
 export interface ModelInfo {
@@ -14,23 +22,97 @@ export enum KnowledgeMode {
   RAG = 'rag'
 }
 
+export interface ChunkMetadata {
+  documentName?: string; // Missing on chunks indexed before names were recorded
+  headings?: string[]; // Section breadcrumb, top-level heading first
+  pageStart?: number; // 1-based PDF pages the chunk spans; absent for unpaged text
+  pageEnd?: number;
+}
+
 export interface Chunk {
   id: string;
   documentId: string;
   text: string;
-  metadata?: any;
+  metadata?: ChunkMetadata;
+}
+
+// A knowledge chunk sent with the prompt; the model cites it by writing [marker]
+export interface KnowledgeCitation {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  headings?: string[];
+  pageStart?: number;
+  pageEnd?: number;
+  text: string;
+}
+
+export enum ChunkingStrategy {
+  MARKDOWN = 'markdown', // Sections by heading, then paragraphs
+  PARAGRAPH = 'paragraph',
+  SENTENCE = 'sentence',
+  FIXED = 'fixed' // Word-aligned windows, ignoring structure
 }
 
+export interface ChunkingSettings {
+  strategy: ChunkingStrategy;
+  chunkTokens: number;
+  overlapTokens: number;
+}
+
+// Document metadata, as kept in React state and localStorage. The contents live in IndexedDB
+// (see DocumentContent) and are only filled in for the generations and indexing runs that use them.
 export interface UploadedDocument {
   id: string;
   name: string;
   mimeType: string;
-  data: string; // Base64 string (optional now, but kept for compatibility)
+  data?: string; // Base64 file
   parsedText?: string;
+  textLength?: number; // Characters of parsed text (0 when there is none), for budgets without loading it
   isActive: boolean;
   size: number;
   knowledgeMode: KnowledgeMode;
   isIndexed?: boolean;
+  chunking?: ChunkingSettings; // Falls back to DEFAULT_CHUNKING
+  // Set while a Smart Search index is incomplete (cancelled or failed midway), so it can resume
+  indexProgress?: { embedded: number; total: number };
+  // Embeddings the document has, one set per vendor and model. Searching needs the set matching
+  // the current embedding vendor and model; keyword search works with any of them.
+  embeddingIndexes?: EmbeddingIndex[];
+  // Set for an imported LinkedIn data export: what it holds, and whether its recent posts are
+  // sent as examples of the user's voice
+  linkedinArchive?: { posts: number; comments: number; styleReference: boolean };
+  // Set when pages of a scanned PDF had no text layer and their text was read by OCR
+  ocr?: OcrInfo;
+  // Set when scanned pages couldn't be read by OCR; they contribute no text (counted from 1)
+  unreadPages?: number[];
+}
+
+export interface OcrInfo {
+  pages: number[]; // Pages whose text came from OCR, counted from 1
+  confidence: number; // Mean engine confidence over those pages, 0-100; misread words lower it
+}
+
+export interface EmbeddingIndex {
+  vendor: Vendor;
+  model: string; // Embedding model, as reported by the provider
+  dimensions: number;
+  chunkCount: number;
+  // How the embedded chunks were cut; unset for indexes from before it was recorded
+  chunking?: ChunkingSettings;
+}
+
+export interface DocumentContent {
+  id: string; // Same id as the document
+  data: string; // Base64 file
+  parsedText?: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number; // Includes thinking/reasoning tokens, which are billed as output
+  embeddingTokens: number;
 }
 
 export enum PostType {
@@ -38,11 +120,90 @@ export enum PostType {
   COMMENT = 'Comment (Short Form)'
 }
 
-export interface GenerationConfig {
+// Sampling options; anything left undefined falls back to the vendor default
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // Reasoning/thinking token budget
+}
+
+export type GenerationParamKey = keyof GenerationParams;
+
+export interface GenerationConfig extends GenerationParams {
   context: string;
   personality: string;
   braindump: string;
   postType: PostType;
   model: string;
   currentDraft?: string;
+  // Vendor (and its key) used for Smart Search when the generating vendor has no embeddings API
+  embeddingVendor?: Vendor;
+  embeddingApiKey?: string;
+  // Set when several candidates are generated at once, so each one takes its own angle
+  variant?: { index: number; total: number };
+  // Ask for a JSON post (body, hooks, hashtags, CTA, summary) instead of free text
+  structured?: boolean;
+  retrieval?: RetrievalSettings;
+  chunkOverrides?: ChunkOverrides;
+  queryExpansion?: QueryExpansion;
+  // The user's own past posts, for the draft to match their voice (not their content)
+  styleExamples?: string[];
+  // Smart Search results found beforehand, e.g. once for all variants, so they cite the same chunks
+  retrieved?: RetrievedKnowledge;
+}
+
+// How Smart Search queries are derived before retrieval
+export enum QueryExpansion {
+  OFF = 'off', // Search with the key points, or the context when there are none
+  MULTI_QUERY = 'multi_query', // Both fields plus model-written sub-queries
+  HYDE = 'hyde' // Both fields plus a model-written hypothetical passage
+}
+
+export interface RetrievalSettings {
+  limit: number; // Chunks sent to the model
+  perDocumentLimit: number; // So one large document cannot take every slot
+  vectorWeight: number; // Weight of embedding similarity in rank fusion; 0 turns it off
+  keywordWeight: number; // Weight of BM25 keyword matches in rank fusion; 0 turns it off
+  diversity: number; // MMR trade-off: 0 ranks by relevance only, 1 by novelty only
+}
+
+// Chosen in the retrieval inspector; both hold chunk ids
+export interface ChunkOverrides {
+  pinned: string[]; // Always sent, ahead of the ranked chunks
+  excluded: string[]; // Never sent
+}
+
+// A chunk as ranked by Smart Search, with the scores behind its position
+export interface RetrievedChunk extends Chunk {
+  score: number; // Fused reciprocal rank score; 0 for pinned chunks that did not rank
+  vectorScore?: number; // Cosine similarity, when the semantic side ran and matched
+  keywordScore?: number; // BM25, when the keyword side ran and matched
+  pinned?: boolean;
+  mergedIds?: string[]; // Set when neighbouring chunks were merged into this passage, in text order
+}
+
+export interface RetrievedKnowledge {
+  chunks: RetrievedChunk[];
+  queries: string[]; // After any query expansion
+  usage: TokenUsage; // Query expansion and query embedding
+  vectorSearchSkipped?: string; // Why the queries couldn't be embedded, when the search fell back to keywords
+}
+
+export interface StructuredPost {
+  body: string;
+  hooks: string[];
+  hashtags: string[];
+  callToAction: string;
+  summary: string;
+}
+
+export interface DraftVariant {
+  id: string;
+  text: string;
+  sources: { title: string; uri: string }[];
+  citations?: KnowledgeCitation[];
+  retrievalQueries?: string[];
+  vectorSearchSkipped?: string;
+  structured?: StructuredPost;
 }
\ No newline at end of file
@@ -6,6 +6,10 @@ export default defineConfig(() => {
   return {
     base: './',
     plugins: [react()],
+    worker: {
+      // The ingestion worker is a module worker, and loads the OCR engine as a separate chunk
+      format: 'es' as const,
+    },
     server: {
       port: 5173,
       strictPort: true,